@@ -0,0 +1,51 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * ColorFormatSelector Component
+ * December 2025
+ *
+ * Picks the color space in which color values are shown and copied,
+ * both in the extracted color list and in the generated palette.
+ *
+ * @component ColorFormatSelector
+ * @param {ColorFormat} format - Selected format
+ * @param {Function} onFormatChange - Callback when a format is chosen
+ */
+
+'use client';
+
+import { ColorFormat } from '@/types/color.types';
+import { COLOR_FORMATS } from '@/lib/color-format';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface ColorFormatSelectorProps {
+  format: ColorFormat;
+  onFormatChange: (format: ColorFormat) => void;
+}
+
+export default function ColorFormatSelector({ format, onFormatChange }: ColorFormatSelectorProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{t.colors.format}</h3>
+      <div className="flex flex-wrap gap-1">
+        {COLOR_FORMATS.map((item) => (
+          <button
+            key={item}
+            onClick={() => onFormatChange(item)}
+            aria-pressed={format === item}
+            className={`px-2 py-1 text-xs font-mono rounded border transition-all ${
+              format === item
+                ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+            }`}
+          >
+            {item.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -34,7 +34,7 @@
 
 import { Color } from '@/types/color.types';
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { rgbToHex, rgbToHsl } from '@/lib/color-algorithms';
+import { fromRgb, fromDisplayP3 } from '@/lib/color-value';
 
 // ============================================================================
 // CUSTOM HOOK: useDragState
@@ -265,18 +265,13 @@ export default function ColorIndicators({
     const r = imageData.data[pixelIndex];
     const g = imageData.data[pixelIndex + 1];
     const b = imageData.data[pixelIndex + 2];
+    const alpha = imageData.data[pixelIndex + 3] / 255;
 
-    const hex = rgbToHex(r, g, b);
-    const hsl = rgbToHsl(r, g, b);
+    const value = imageData.colorSpace === 'display-p3'
+      ? fromDisplayP3(r / 255, g / 255, b / 255, alpha)
+      : fromRgb(r, g, b, alpha);
 
-    return {
-      r, g, b,
-      h: hsl.h,
-      s: hsl.s,
-      l: hsl.l,
-      hex,
-      position: imageCoords
-    };
+    return { ...value, position: imageCoords };
   }, [imageData]);
 
   // ------------------------------------------------------------
@@ -0,0 +1,115 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * ColorInput Component
+ * December 2025
+ *
+ * Text field for typing or pasting a color in any CSS syntax (HEX, rgb(),
+ * hsl(), hwb(), lab(), lch(), oklab(), oklch(), color() or a color name)
+ * and adding it as an extra base color.
+ *
+ * Features:
+ * - Live swatch preview while the text is a valid color
+ * - Explains why the text is not a color when adding fails
+ * - Errors are marked with an icon and text, never by color alone
+ *
+ * @component ColorInput
+ * @param {Function} onAdd - Callback with the parsed color
+ */
+
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Color } from '@/types/color.types';
+import { parseColor, ColorParseError, ColorParseErrorReason } from '@/lib/color-parser';
+import { colorToHex } from '@/lib/color-value';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface ColorInputProps {
+  onAdd: (color: Color) => void;
+}
+
+// Parse without throwing, for the live preview
+function tryParse(value: string): Color | null {
+  try {
+    return parseColor(value);
+  } catch {
+    return null;
+  }
+}
+
+export default function ColorInput({ onAdd }: ColorInputProps) {
+  const { t } = useLanguage();
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const preview = tryParse(value);
+
+  const errorMessages: Record<ColorParseErrorReason, string> = {
+    'empty': t.colorInput.errors.empty,
+    'syntax': t.colorInput.errors.syntax,
+    'invalid-hex': t.colorInput.errors.invalidHex,
+    'unknown-name': t.colorInput.errors.unknownName,
+    'unknown-function': t.colorInput.errors.unknownFunction,
+    'unknown-space': t.colorInput.errors.unknownSpace,
+    'argument-count': t.colorInput.errors.argumentCount,
+    'invalid-value': t.colorInput.errors.invalidValue
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      onAdd(parseColor(value));
+      setValue('');
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof ColorParseError)) throw err;
+      setError(err.detail && err.reason !== 'empty'
+        ? `${errorMessages[err.reason]}: ${err.detail}`
+        : errorMessages[err.reason]);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <label htmlFor="color-input" className="block text-sm font-medium">
+        {t.colorInput.title}
+      </label>
+      <div className="flex gap-2">
+        <div
+          className="w-10 flex-shrink-0 rounded border border-border dark:border-border bg-accent dark:bg-accent"
+          style={preview ? { backgroundColor: colorToHex(preview) } : undefined}
+          aria-hidden="true"
+        />
+        <input
+          id="color-input"
+          type="text"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(null);
+          }}
+          placeholder={t.colorInput.placeholder}
+          spellCheck={false}
+          autoComplete="off"
+          aria-invalid={error !== null}
+          aria-describedby={error ? 'color-input-error' : undefined}
+          className="flex-1 min-w-0 px-3 py-2 text-sm font-mono rounded border border-border dark:border-border bg-white dark:bg-background"
+        />
+        <button
+          type="submit"
+          className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+        >
+          {t.colorInput.add}
+        </button>
+      </div>
+      {error && (
+        <p id="color-input-error" role="alert" className="text-xs font-medium">
+          <span className="mr-1" aria-hidden="true">⚠</span>
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
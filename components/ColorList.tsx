@@ -8,43 +8,90 @@
  * Displays a list of extracted colors from the uploaded image.
  * Each color item shows:
  * - Color swatch preview
- * - HEX code
- * - RGB values
+ * - Value in the selected color format
+ * - HEX code (RGB values when the format is HEX)
+ * - Coverage bar with the share of the image each color covers (when known)
  * - Copy to clipboard functionality (click to copy)
  * - Visual feedback when selected (synchronized with ColorIndicators)
  *
  * Features:
- * - Click on any color to copy its HEX code to clipboard
+ * - Click on any color to copy its value, in the selected format, to clipboard
  * - Shows checkmark icon when copied (1.5 second timeout)
  * - Highlights selected color with inverted background
  * - Skeleton loading state when no colors are available
  * - Responsive hover effects
+ * - Optional toggle to order colors by coverage (dominance)
+ * - Region badge for colors extracted from a region of interest
+ * - Image badge for colors extracted from one of several images
+ * - Optional field to add colors typed in any CSS syntax, and button to remove colors
+ * - Optional per-color harmony settings (own mode and ring count, or no harmony)
+ * - Optional lock per color, keeping it when the palette is regenerated
  *
  * @component ColorList
  * @param {Color[]} colors - Array of colors to display
  * @param {string} title - Title for the color list section
  * @param {number|null} selectedIndex - Index of currently selected color (optional)
  * @param {Function} onSelectColor - Callback when a color is clicked (optional)
+ * @param {boolean} sortByWeight - Whether colors are ordered by coverage (optional)
+ * @param {Function} onSortByWeightChange - Callback to toggle coverage ordering (optional)
+ * @param {Region[]} regions - Regions of interest, used to label colors by region (optional)
+ * @param {ColorFormat} format - Color format used to show and copy values (optional, HEX by default)
+ * @param {Function} onAddColor - Callback with a color typed by the user (optional)
+ * @param {Function} onRemoveColor - Callback with the index of a color to remove (optional)
+ * @param {HarmonyRule[]} harmonyRules - Saved custom harmony rules, offered per color (optional)
+ * @param {Function} onHarmonyOverrideChange - Callback with the index of a color and its new harmony settings (optional)
+ * @param {Function} onToggleLock - Callback with the index of a color to lock or unlock (optional)
  */
 
 'use client';
 
-import { Color } from '@/types/color.types';
+import { Color, ColorFormat, HarmonyOverride, HarmonyRule, Region } from '@/types/color.types';
+import { colorToHex } from '@/lib/color-value';
+import { formatColor, DEFAULT_COLOR_FORMAT } from '@/lib/color-format';
 import { useState } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import ColorInput from '@/components/ColorInput';
+import HarmonyOverrideEditor from '@/components/HarmonyOverrideEditor';
 
 interface ColorListProps {
   colors: Color[];
   title: string;
   selectedIndex?: number | null;
   onSelectColor?: (index: number) => void;
+  sortByWeight?: boolean;
+  onSortByWeightChange?: (sortByWeight: boolean) => void;
+  regions?: Region[];
+  format?: ColorFormat;
+  onAddColor?: (color: Color) => void;
+  onRemoveColor?: (index: number) => void;
+  harmonyRules?: HarmonyRule[];
+  onHarmonyOverrideChange?: (index: number, override: HarmonyOverride | undefined) => void;
+  onToggleLock?: (index: number) => void;
 }
 
-export default function ColorList({ colors, title, selectedIndex, onSelectColor }: ColorListProps) {
+export default function ColorList({
+  colors,
+  title,
+  selectedIndex,
+  onSelectColor,
+  sortByWeight = false,
+  onSortByWeightChange,
+  regions = [],
+  format = DEFAULT_COLOR_FORMAT,
+  onAddColor,
+  onRemoveColor,
+  harmonyRules = [],
+  onHarmonyOverrideChange,
+  onToggleLock
+}: ColorListProps) {
+  const { t } = useLanguage();
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const hasWeights = colors.some(color => color.weight !== undefined);
 
-  const copyToClipboard = async (hex: string, index: number) => {
+  const copyToClipboard = async (value: string, index: number) => {
     try {
-      await navigator.clipboard.writeText(hex);
+      await navigator.clipboard.writeText(value);
       setCopiedIndex(index);
       setTimeout(() => setCopiedIndex(null), 1500);
     } catch (err) {
@@ -70,64 +117,163 @@ export default function ColorList({ colors, title, selectedIndex, onSelectColor
             </div>
           ))}
         </div>
+        {onAddColor && <ColorInput onAdd={onAddColor} />}
       </div>
     );
   }
 
   return (
     <div className="space-y-3">
-      <h2 className="text-lg font-semibold">{title}</h2>
-      <div className="space-y-2">
-        {colors.map((color, index) => (
-          <div
-            key={index}
-            className={`flex items-center gap-3 p-3 border rounded-lg transition-all cursor-pointer group relative ${
-              selectedIndex === index
-                ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white scale-[1.02] shadow-md'
-                : 'bg-white dark:bg-background border-border dark:border-border hover:bg-accent dark:hover:bg-accent'
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        {hasWeights && onSortByWeightChange && (
+          <button
+            onClick={() => onSortByWeightChange(!sortByWeight)}
+            className={`px-2 py-1 text-xs rounded border transition-all ${
+              sortByWeight
+                ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
             }`}
-            onClick={() => {
-              onSelectColor?.(index);
-              copyToClipboard(color.hex, index);
-            }}
+            aria-pressed={sortByWeight}
           >
+            {t.colors.sortByCoverage}
+          </button>
+        )}
+      </div>
+      <div className="space-y-2">
+        {colors.map((color, index) => (
+          <div key={index} className="space-y-1">
             <div
-              className="w-10 h-10 rounded border border-border flex-shrink-0"
-              style={{ backgroundColor: color.hex }}
-            />
-            <div className="flex-1 min-w-0">
-              <div className={`text-sm font-semibold ${selectedIndex === index ? 'text-white dark:text-black' : ''}`}>
-                {color.hex}
-              </div>
-              <div className={`text-xs ${selectedIndex === index ? 'text-gray-300 dark:text-gray-700' : 'text-muted dark:text-muted'}`}>
-                RGB({color.r}, {color.g}, {color.b})
+              className={`flex items-center gap-3 p-3 border rounded-lg transition-all cursor-pointer group relative ${
+                selectedIndex === index
+                  ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white scale-[1.02] shadow-md'
+                  : 'bg-white dark:bg-background border-border dark:border-border hover:bg-accent dark:hover:bg-accent'
+              }`}
+              onClick={() => {
+                onSelectColor?.(index);
+                copyToClipboard(formatColor(color, format), index);
+              }}
+            >
+              <div
+                className="w-10 h-10 rounded border border-border flex-shrink-0"
+                style={{ backgroundColor: colorToHex(color) }}
+              />
+              <div className="flex-1 min-w-0">
+                <div className={`flex items-center gap-2 text-sm font-semibold ${selectedIndex === index ? 'text-white dark:text-black' : ''}`}>
+                  <span className="truncate">{formatColor(color, format)}</span>
+                  {color.regionId && regions.some(region => region.id === color.regionId) && (
+                    <span className={`px-1.5 text-[10px] font-medium rounded border ${selectedIndex === index ? 'border-gray-500' : 'border-border dark:border-border text-muted dark:text-muted'}`}>
+                      {t.regions.region} {regions.findIndex(region => region.id === color.regionId) + 1}
+                    </span>
+                  )}
+                  {color.sourceIndex !== undefined && (
+                    <span className={`px-1.5 text-[10px] font-medium rounded border ${selectedIndex === index ? 'border-gray-500' : 'border-border dark:border-border text-muted dark:text-muted'}`}>
+                      {t.images.image} {color.sourceIndex + 1}
+                    </span>
+                  )}
+                  {color.harmony && (
+                    <span className={`px-1.5 text-[10px] font-medium rounded border ${selectedIndex === index ? 'border-gray-500' : 'border-border dark:border-border text-muted dark:text-muted'}`}>
+                      {color.harmony.disabled ? t.harmonyOverride.off : t.harmonyOverride.own}
+                    </span>
+                  )}
+                </div>
+                <div className={`text-xs ${selectedIndex === index ? 'text-gray-300 dark:text-gray-700' : 'text-muted dark:text-muted'}`}>
+                  {format === 'hex' ? `RGB(${color.r}, ${color.g}, ${color.b})` : colorToHex(color)}
+                </div>
+                {color.weight !== undefined && (
+                  <div className="flex items-center gap-2 mt-1" title={t.colors.coverage}>
+                    <div className={`flex-1 h-1 rounded-full overflow-hidden ${selectedIndex === index ? 'bg-gray-700 dark:bg-gray-300' : 'bg-accent dark:bg-accent'}`}>
+                      <div
+                        className={`h-full ${selectedIndex === index ? 'bg-white dark:bg-black' : 'bg-black dark:bg-white'}`}
+                        style={{ width: `${(color.weight * 100).toFixed(1)}%` }}
+                      />
+                    </div>
+                    <span className={`text-xs tabular-nums ${selectedIndex === index ? 'text-gray-300 dark:text-gray-700' : 'text-muted dark:text-muted'}`}>
+                      {(color.weight * 100).toFixed(1)}%
+                    </span>
+                  </div>
+                )}
               </div>
-            </div>
-            <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-              {copiedIndex === index ? (
-                <svg
-                  className={`w-4 h-4 ${selectedIndex === index ? 'text-white dark:text-black' : 'text-black dark:text-white'}`}
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+              {/* Focus is released so the space bar regenerates instead of toggling the lock again */}
+              {onToggleLock && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleLock(index);
+                    e.currentTarget.blur();
+                  }}
+                  className={`${color.locked ? '' : 'opacity-0'} group-hover:opacity-100 focus:opacity-100 transition-opacity ${selectedIndex === index ? 'text-gray-300 dark:text-gray-700' : 'text-muted dark:text-muted hover:text-foreground dark:hover:text-foreground'}`}
+                  aria-label={`${color.locked ? t.colors.unlock : t.colors.lock} ${colorToHex(color)}`}
+                  aria-pressed={Boolean(color.locked)}
+                  title={color.locked ? t.colors.unlock : t.colors.lock}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                    <rect x="5" y="11" width="14" height="10" rx="2" ry="2" strokeWidth="2" />
+                    <path d={color.locked ? 'M8 11V7a4 4 0 0 1 8 0v4' : 'M8 11V7a4 4 0 0 1 7.75-1.4'} strokeWidth="2" />
+                  </svg>
+                </button>
+              )}
+              {onHarmonyOverrideChange && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingIndex(editingIndex === index ? null : index);
+                  }}
+                  className={`${editingIndex === index ? '' : 'opacity-0'} group-hover:opacity-100 focus:opacity-100 transition-opacity text-sm leading-none ${selectedIndex === index ? 'text-gray-300 dark:text-gray-700' : 'text-muted dark:text-muted hover:text-foreground dark:hover:text-foreground'}`}
+                  aria-label={`${t.harmonyOverride.edit} ${colorToHex(color)}`}
+                  aria-expanded={editingIndex === index}
+                  title={t.harmonyOverride.edit}
                 >
-                  <polyline points="20,6 9,17 4,12" strokeWidth="2" />
-                </svg>
-              ) : (
-                <svg
-                  className={`w-4 h-4 ${selectedIndex === index ? 'text-gray-300 dark:text-gray-700' : 'text-muted dark:text-muted'}`}
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+                  ◐
+                </button>
+              )}
+              {onRemoveColor && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemoveColor(index);
+                  }}
+                  className={`opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity text-sm leading-none ${selectedIndex === index ? 'text-gray-300 dark:text-gray-700' : 'text-muted dark:text-muted hover:text-foreground dark:hover:text-foreground'}`}
+                  aria-label={`${t.colorInput.remove} ${colorToHex(color)}`}
+                  title={t.colorInput.remove}
                 >
-                  <rect x="9" y="9" width="13" height="13" rx="2" ry="2" strokeWidth="2" />
-                  <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" strokeWidth="2" />
-                </svg>
+                  ×
+                </button>
               )}
+              <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                {copiedIndex === index ? (
+                  <svg
+                    className={`w-4 h-4 ${selectedIndex === index ? 'text-white dark:text-black' : 'text-black dark:text-white'}`}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <polyline points="20,6 9,17 4,12" strokeWidth="2" />
+                  </svg>
+                ) : (
+                  <svg
+                    className={`w-4 h-4 ${selectedIndex === index ? 'text-gray-300 dark:text-gray-700' : 'text-muted dark:text-muted'}`}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <rect x="9" y="9" width="13" height="13" rx="2" ry="2" strokeWidth="2" />
+                    <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" strokeWidth="2" />
+                  </svg>
+                )}
+              </div>
             </div>
+            {onHarmonyOverrideChange && editingIndex === index && (
+              <HarmonyOverrideEditor
+                override={color.harmony}
+                rules={harmonyRules}
+                onChange={(override) => onHarmonyOverrideChange(index, override)}
+              />
+            )}
           </div>
         ))}
       </div>
+      {onAddColor && <ColorInput onAdd={onAddColor} />}
     </div>
   );
 }
@@ -0,0 +1,181 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * ContrastRampPanel Component
+ * December 2025
+ *
+ * Contrast-targeted ramp of one of the base colors: for each contrast
+ * target, the color with the base hue and chroma that reaches it as text
+ * on white and as text on black.
+ *
+ * Features:
+ * - Base color chosen among the base colors
+ * - WCAG 2 contrast ratios or APCA Lc targets, typed as a list
+ * - Each step previewed as text on its background, with the contrast reached
+ * - Unreachable targets are marked with an icon and text, never by color alone
+ *
+ * @component ContrastRampPanel
+ * @param {Color[]} bases - Colors a ramp can be built from (the base colors)
+ * @param {ColorFormat} format - Color format used to show values (optional, HEX by default)
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Color, ColorFormat, ContrastMethod } from '@/types/color.types';
+import { generateContrastRamp, ContrastBackground, DEFAULT_CONTRAST_TARGETS } from '@/lib/contrast';
+import { formatColor, DEFAULT_COLOR_FORMAT } from '@/lib/color-format';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface ContrastRampPanelProps {
+  bases: Color[];
+  format?: ColorFormat;
+}
+
+// Read a list of targets; null when any value is not a positive number
+function parseTargets(text: string): number[] | null {
+  const values = text.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some(value => !Number.isFinite(value) || value <= 0)) return null;
+  return values;
+}
+
+export default function ContrastRampPanel({ bases, format = DEFAULT_COLOR_FORMAT }: ContrastRampPanelProps) {
+  const { t } = useLanguage();
+  const [baseIndex, setBaseIndex] = useState(0);
+  const [method, setMethod] = useState<ContrastMethod>('wcag2');
+  const [targetsText, setTargetsText] = useState(DEFAULT_CONTRAST_TARGETS.wcag2.join(', '));
+
+  const selectedIndex = Math.min(baseIndex, bases.length - 1);
+  const base = bases[selectedIndex];
+  const targets = useMemo(() => parseTargets(targetsText), [targetsText]);
+  const ramp = useMemo(
+    () => (base && targets ? generateContrastRamp(base, targets, method) : null),
+    [base, targets, method]
+  );
+
+  if (!base) {
+    return (
+      <div className="text-center p-10 text-muted dark:text-muted">
+        <p>{t.colors.placeholder}</p>
+      </div>
+    );
+  }
+
+  const methods: { value: ContrastMethod; label: string }[] = [
+    { value: 'wcag2', label: t.contrast.wcag2 },
+    { value: 'apca', label: t.contrast.apca }
+  ];
+
+  const handleMethodChange = (value: ContrastMethod) => {
+    setMethod(value);
+    setTargetsText(DEFAULT_CONTRAST_TARGETS[value].join(', '));
+  };
+
+  const backgrounds: { value: ContrastBackground; label: string; hex: string }[] = [
+    { value: 'white', label: t.contrast.onWhite, hex: '#ffffff' },
+    { value: 'black', label: t.contrast.onBlack, hex: '#000000' }
+  ];
+
+  const formatContrast = (value: number) => (method === 'apca' ? `Lc ${value.toFixed(1)}` : `${value.toFixed(2)}:1`);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="block text-xs text-muted dark:text-muted">{t.contrast.base}</span>
+        <div className="flex flex-wrap gap-2" role="group" aria-label={t.contrast.base}>
+          {bases.map((color, index) => (
+            <button
+              key={index}
+              onClick={() => setBaseIndex(index)}
+              aria-pressed={index === selectedIndex}
+              aria-label={color.hex}
+              title={color.hex}
+              className={`w-7 h-7 rounded border-2 transition-all ${
+                index === selectedIndex
+                  ? 'border-black dark:border-white scale-110'
+                  : 'border-border dark:border-border hover:border-black dark:hover:border-white'
+              }`}
+              style={{ backgroundColor: color.hex }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2" role="group" aria-label={t.contrast.method}>
+        {methods.map((item) => (
+          <button
+            key={item.value}
+            onClick={() => handleMethodChange(item.value)}
+            aria-pressed={method === item.value}
+            className={`
+              px-3 py-2 text-sm rounded border transition-all
+              ${
+                method === item.value
+                  ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                  : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+              }
+            `}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <label htmlFor="contrast-targets" className="block text-xs text-muted dark:text-muted space-y-1">
+        <span>{t.contrast.targets}</span>
+        <input
+          id="contrast-targets"
+          type="text"
+          value={targetsText}
+          onChange={(e) => setTargetsText(e.target.value)}
+          spellCheck={false}
+          autoComplete="off"
+          aria-invalid={targets === null}
+          className="w-full px-3 py-2 text-sm font-mono rounded border border-border dark:border-border bg-white dark:bg-background text-foreground dark:text-foreground"
+        />
+      </label>
+
+      {targets === null && (
+        <p role="alert" className="text-xs font-medium">
+          <span className="mr-1" aria-hidden="true">⚠</span>
+          {t.contrast.invalidTargets}
+        </p>
+      )}
+
+      {ramp && backgrounds.map((background) => (
+        <div key={background.value} className="space-y-1">
+          <h3 className="text-sm font-semibold">{background.label}</h3>
+          {ramp.steps.filter(step => step.background === background.value).map((step, index) => (
+            <div key={index} className="flex items-center gap-2 text-xs">
+              <span
+                className="w-10 py-1 rounded border border-border text-center font-bold"
+                style={{ backgroundColor: background.hex, color: step.color.hex }}
+                aria-hidden="true"
+              >
+                Aa
+              </span>
+              <span className="flex-1 min-w-0 truncate font-mono">{formatColor(step.color, format)}</span>
+              <span className="font-mono text-muted dark:text-muted">
+                {formatContrast(step.target)} → {formatContrast(step.contrast)}
+              </span>
+              {!step.reachable && (
+                <span title={t.contrast.unreachable}>
+                  <span aria-hidden="true">⚠</span>
+                  <span className="sr-only">{t.contrast.unreachable}</span>
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {ramp?.steps.some(step => !step.reachable) && (
+        <p className="text-xs text-muted dark:text-muted">
+          <span className="mr-1" aria-hidden="true">⚠</span>
+          {t.contrast.unreachableHint}
+        </p>
+      )}
+    </div>
+  );
+}
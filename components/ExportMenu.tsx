@@ -13,6 +13,7 @@
  * - JSON: Structured data with HEX, RGB, and HSL values
  * - CSS: CSS custom properties for web projects
  * - SVG: Scalable vector graphic of the palette
+ * - Tailwind / CSS scales: 50-950 tonal scale of each base color
  *
  * Features:
  * - Disabled state when no colors are available
@@ -22,28 +23,44 @@
  *
  * @component ExportMenu
  * @param {Color[]} colors - Array of colors to export
+ * @param {TonalScale[]} scales - Tonal scales of the base colors (optional)
  * @param {boolean} disabled - Whether export is disabled (optional)
  */
 
 'use client';
 
 import { Color } from '@/types/color.types';
-import { exportAsJSON, exportAsCSS, exportAsSVG, exportAsPNG } from '@/lib/export-utils';
+import {
+  exportAsJSON,
+  exportAsCSS,
+  exportAsSVG,
+  exportAsPNG,
+  exportScalesAsTailwind,
+  exportScalesAsCSS
+} from '@/lib/export-utils';
+import { TonalScale } from '@/lib/tonal-scales';
 import { useLanguage } from '@/contexts/LanguageContext';
 
 interface ExportMenuProps {
   colors: Color[];
+  scales?: TonalScale[];
   disabled?: boolean;
 }
 
-export default function ExportMenu({ colors, disabled = false }: ExportMenuProps) {
+export default function ExportMenu({ colors, scales = [], disabled = false }: ExportMenuProps) {
   const { t } = useLanguage();
 
   const exportFormats = [
     { label: t.export.formats.png, handler: () => exportAsPNG(colors), icon: '□' },
     { label: t.export.formats.json, handler: () => exportAsJSON(colors), icon: '{ }' },
     { label: t.export.formats.css, handler: () => exportAsCSS(colors), icon: 'CSS' },
-    { label: t.export.formats.svg, handler: () => exportAsSVG(colors), icon: '⬡' }
+    { label: t.export.formats.svg, handler: () => exportAsSVG(colors), icon: '⬡' },
+    ...(scales.length > 0
+      ? [
+          { label: t.scales.exportTailwind, handler: () => exportScalesAsTailwind(scales), icon: 'TW' },
+          { label: t.scales.exportCss, handler: () => exportScalesAsCSS(scales), icon: '50–950' }
+        ]
+      : [])
   ];
 
   return (
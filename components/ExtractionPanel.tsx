@@ -0,0 +1,411 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * ExtractionPanel Component
+ * December 2025
+ *
+ * Control panel for configuring color extraction from the current image.
+ * Allows users to:
+ * - Choose the extraction algorithm (k-means, median cut, octree, MMCQ)
+ * - Choose how many base colors are extracted (2-16), or let k-means pick
+ *   the count automatically and compare the score of every count tried
+ * - Set the seed used by k-means, or draw a new random one
+ * - Choose how transparent pixels are handled (ignore, weight by alpha, flatten onto white)
+ * - Choose which pixels matter most (uniform, center, saliency, painted brush)
+ * - Exclude the background, near-neutral colors or too dark/light pixels,
+ *   and see how many pixels each filter removed in the last extraction
+ * - Re-run extraction on the current image with the new settings
+ *
+ * The same seed and settings always reproduce the same palette, so a
+ * seed can be noted down and shared. Switching algorithms and re-running
+ * compares their results on the same image.
+ *
+ * @component ExtractionPanel
+ * @param {ExtractionOptions} options - Current extraction options
+ * @param {Function} onOptionsChange - Callback when an option changes
+ * @param {Function} onExtract - Callback to re-run extraction
+ * @param {boolean} disabled - Whether re-running is disabled (optional)
+ * @param {FilterStats} filterStats - Pixels removed by each filter in the last extraction (optional)
+ * @param {ColorCountAnalysis} colorCountAnalysis - Scores from the last automatic color count (optional)
+ * @param {Function} onColorCountSelect - Callback to extract again with a given color count (optional)
+ */
+
+'use client';
+
+import {
+  AlphaMode,
+  ColorCountAnalysis,
+  ColorCountCriterion,
+  ExtractionAlgorithm,
+  ExtractionFilters,
+  ExtractionOptions,
+  FilterStats,
+  SamplingWeighting
+} from '@/types/color.types';
+import { DEFAULT_EXTRACTION_OPTIONS } from '@/lib/color-algorithms';
+import { DEFAULT_FILTERS } from '@/lib/extraction-filters';
+import { randomSeed } from '@/lib/random';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface ExtractionPanelProps {
+  options: ExtractionOptions;
+  onOptionsChange: (options: ExtractionOptions) => void;
+  onExtract: () => void;
+  disabled?: boolean;
+  filterStats?: FilterStats;
+  colorCountAnalysis?: ColorCountAnalysis;
+  onColorCountSelect?: (colorCount: number) => void;
+}
+
+export default function ExtractionPanel({
+  options,
+  onOptionsChange,
+  onExtract,
+  disabled = false,
+  filterStats,
+  colorCountAnalysis,
+  onColorCountSelect
+}: ExtractionPanelProps) {
+  const { t } = useLanguage();
+  const colorCount = options.colorCount ?? DEFAULT_EXTRACTION_OPTIONS.colorCount;
+  const algorithm = options.algorithm ?? DEFAULT_EXTRACTION_OPTIONS.algorithm;
+  const alphaMode = options.alphaMode ?? DEFAULT_EXTRACTION_OPTIONS.alphaMode;
+  const weighting = options.weighting ?? DEFAULT_EXTRACTION_OPTIONS.weighting;
+  const autoColorCount = algorithm === 'kmeans' && (options.autoColorCount ?? DEFAULT_EXTRACTION_OPTIONS.autoColorCount);
+  const criterion = options.colorCountCriterion ?? DEFAULT_EXTRACTION_OPTIONS.colorCountCriterion;
+  const filters = { ...DEFAULT_FILTERS, ...options.filters };
+
+  const updateFilters = (changes: ExtractionFilters) => {
+    onOptionsChange({ ...options, filters: { ...options.filters, ...changes } });
+  };
+
+  // Pixels removed by a filter, as shown next to its toggle
+  const formatRemoved = (removed: number) => {
+    if (!filterStats || filterStats.total === 0) return null;
+    const percent = Math.round((removed / filterStats.total) * 100);
+    return `−${removed.toLocaleString()} px (${percent}%)`;
+  };
+
+  const algorithms: { value: ExtractionAlgorithm; label: string }[] = [
+    { value: 'kmeans', label: t.extraction.algorithms.kmeans },
+    { value: 'median-cut', label: t.extraction.algorithms.medianCut },
+    { value: 'octree', label: t.extraction.algorithms.octree },
+    { value: 'mmcq', label: t.extraction.algorithms.mmcq }
+  ];
+
+  const criteria: { value: ColorCountCriterion; label: string }[] = [
+    { value: 'silhouette', label: t.extraction.autoCount.silhouette },
+    { value: 'elbow', label: t.extraction.autoCount.elbow }
+  ];
+
+  const alphaModes: { value: AlphaMode; label: string }[] = [
+    { value: 'ignore', label: t.extraction.alphaModes.ignore },
+    { value: 'weight', label: t.extraction.alphaModes.weight },
+    { value: 'flatten', label: t.extraction.alphaModes.flatten }
+  ];
+
+  const weightings: { value: SamplingWeighting; label: string }[] = [
+    { value: 'uniform', label: t.extraction.weightings.uniform },
+    { value: 'center', label: t.extraction.weightings.center },
+    { value: 'saliency', label: t.extraction.weightings.saliency },
+    { value: 'brush', label: t.extraction.weightings.brush }
+  ];
+
+  const filterToggles: { key: 'excludeBackground' | 'excludeNeutrals' | 'excludeLightness'; label: string; removed?: number }[] = [
+    { key: 'excludeBackground', label: t.extraction.filters.background, removed: filterStats?.background },
+    { key: 'excludeNeutrals', label: t.extraction.filters.neutrals, removed: filterStats?.neutrals },
+    { key: 'excludeLightness', label: t.extraction.filters.lightness, removed: filterStats?.lightness }
+  ];
+
+  return (
+    <div className="space-y-4 p-4 bg-white dark:bg-background border border-border dark:border-border rounded-lg">
+      <div>
+        <label className="block text-sm font-medium mb-2">
+          {t.extraction.algorithm}
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {algorithms.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => onOptionsChange({ ...options, algorithm: item.value })}
+              className={`
+                px-3 py-2 text-sm rounded border transition-all text-left
+                ${
+                  algorithm === item.value
+                    ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                    : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+                }
+              `}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <label className="block text-sm font-medium">
+            {t.extraction.colorCount}: {autoColorCount ? t.extraction.autoCount.auto : colorCount}
+          </label>
+          {algorithm === 'kmeans' && (
+            <label className="flex items-center gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={autoColorCount}
+                onChange={(e) => onOptionsChange({ ...options, autoColorCount: e.target.checked })}
+                className="accent-black dark:accent-white"
+              />
+              {t.extraction.autoCount.auto}
+            </label>
+          )}
+        </div>
+
+        {autoColorCount ? (
+          <div className="grid grid-cols-2 gap-2">
+            {criteria.map((item) => (
+              <button
+                key={item.value}
+                onClick={() => onOptionsChange({ ...options, colorCountCriterion: item.value })}
+                className={`
+                  px-3 py-2 text-sm rounded border transition-all
+                  ${
+                    criterion === item.value
+                      ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                      : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+                  }
+                `}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <>
+            <input
+              type="range"
+              min="2"
+              max="16"
+              value={colorCount}
+              onChange={(e) => onOptionsChange({ ...options, colorCount: parseInt(e.target.value) })}
+              className="w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+            />
+            <div className="flex justify-between text-xs text-muted dark:text-muted mt-1">
+              <span>2</span>
+              <span>16</span>
+            </div>
+          </>
+        )}
+
+        {algorithm === 'kmeans' && colorCountAnalysis && colorCountAnalysis.scores.length > 0 && (
+          <div className="mt-3">
+            <p className="text-xs text-muted dark:text-muted mb-1">
+              {t.extraction.autoCount.scores} ({colorCountAnalysis.criterion === 'silhouette'
+                ? t.extraction.autoCount.silhouette
+                : t.extraction.autoCount.elbow})
+            </p>
+            <div className="space-y-1">
+              {colorCountAnalysis.scores.map((entry) => {
+                const isChosen = entry.colorCount === colorCountAnalysis.colorCount;
+                const isCurrent = autoColorCount ? isChosen : entry.colorCount === colorCount;
+
+                return (
+                  <button
+                    key={entry.colorCount}
+                    onClick={() => onColorCountSelect?.(entry.colorCount)}
+                    disabled={disabled || !onColorCountSelect}
+                    title={t.extraction.autoCount.override}
+                    className={`w-full flex items-center gap-2 px-2 py-0.5 text-xs font-mono rounded border transition-all ${
+                      isCurrent
+                        ? 'border-black dark:border-white'
+                        : 'border-transparent hover:border-border dark:hover:border-border'
+                    }`}
+                  >
+                    <span className="w-5 text-right">{entry.colorCount}</span>
+                    <span className="flex-1 h-1.5 bg-accent dark:bg-accent rounded overflow-hidden">
+                      <span
+                        className="block h-full bg-black dark:bg-white"
+                        style={{ width: `${Math.round(entry.score * 100)}%` }}
+                      />
+                    </span>
+                    <span className="w-8 text-right">{entry.score.toFixed(2)}</span>
+                    <span className="w-8 text-left text-muted dark:text-muted">
+                      {isChosen ? t.extraction.autoCount.auto : ''}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {algorithm === 'kmeans' && (
+        <div>
+          <label className="block text-sm font-medium mb-2">
+            {t.extraction.seed}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={options.seed ?? ''}
+              onChange={(e) => onOptionsChange({
+                ...options,
+                seed: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)
+              })}
+              className="flex-1 min-w-0 px-3 py-2 text-sm font-mono rounded border border-border dark:border-border bg-white dark:bg-background"
+            />
+            <button
+              onClick={() => onOptionsChange({ ...options, seed: randomSeed() })}
+              className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+              aria-label={t.extraction.randomSeed}
+              title={t.extraction.randomSeed}
+            >
+              ↻
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium mb-2">
+          {t.extraction.alphaMode}
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {alphaModes.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => onOptionsChange({ ...options, alphaMode: item.value })}
+              className={`
+                px-3 py-2 text-sm rounded border transition-all
+                ${
+                  alphaMode === item.value
+                    ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                    : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+                }
+              `}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">
+          {t.extraction.weighting}
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {weightings.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => onOptionsChange({ ...options, weighting: item.value })}
+              className={`
+                px-3 py-2 text-sm rounded border transition-all
+                ${
+                  weighting === item.value
+                    ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                    : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+                }
+              `}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">
+          {t.extraction.filters.title}
+        </label>
+        <div className="space-y-2">
+          {filterToggles.map((item) => (
+            <label key={item.key} className="flex items-center justify-between gap-2 text-sm cursor-pointer">
+              <span className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={filters[item.key]}
+                  onChange={(e) => updateFilters({ [item.key]: e.target.checked })}
+                  className="accent-black dark:accent-white"
+                />
+                {item.label}
+              </span>
+              {filters[item.key] && item.removed !== undefined && (
+                <span className="text-xs font-mono text-muted dark:text-muted">
+                  {formatRemoved(item.removed)}
+                </span>
+              )}
+            </label>
+          ))}
+        </div>
+
+        {filters.excludeNeutrals && (
+          <div className="mt-3">
+            <label className="block text-xs text-muted dark:text-muted mb-1">
+              {t.extraction.filters.chroma}: {filters.neutralChroma.toFixed(3)}
+            </label>
+            <input
+              type="range"
+              min="0.005"
+              max="0.15"
+              step="0.005"
+              value={filters.neutralChroma}
+              onChange={(e) => updateFilters({ neutralChroma: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+            />
+          </div>
+        )}
+
+        {filters.excludeLightness && (
+          <div className="mt-3 space-y-2">
+            <div>
+              <label className="block text-xs text-muted dark:text-muted mb-1">
+                {t.extraction.filters.minLightness}: {filters.minLightness}%
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={filters.minLightness}
+                onChange={(e) => updateFilters({
+                  minLightness: Math.min(parseInt(e.target.value), filters.maxLightness)
+                })}
+                className="w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted dark:text-muted mb-1">
+                {t.extraction.filters.maxLightness}: {filters.maxLightness}%
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={filters.maxLightness}
+                onChange={(e) => updateFilters({
+                  maxLightness: Math.max(parseInt(e.target.value), filters.minLightness)
+                })}
+                className="w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={onExtract}
+        disabled={disabled}
+        className={`w-full px-3 py-2 text-sm font-medium rounded border transition-all ${
+          disabled
+            ? 'bg-accent dark:bg-accent text-muted dark:text-muted border-border dark:border-border cursor-not-allowed'
+            : 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white hover:bg-gray-800 dark:hover:bg-gray-200'
+        }`}
+      >
+        {t.extraction.rerun}
+      </button>
+    </div>
+  );
+}
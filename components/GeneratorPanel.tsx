@@ -0,0 +1,178 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * GeneratorPanel Component
+ * December 2025
+ *
+ * Control panel of the palette generator, which builds base colors
+ * without an image. Allows users to:
+ * - Choose how many base colors are generated (2-12)
+ * - Limit their OKLCH lightness and chroma to a range
+ * - Set the seed of the random draws, or draw a new random one
+ * - Generate the palette; locked colors are kept and the hues of the new
+ *   ones follow the harmony mode in use
+ *
+ * Once a palette has been generated, pressing the space bar regenerates
+ * its unlocked colors with a new seed.
+ *
+ * @component GeneratorPanel
+ * @param {GeneratorOptions} options - Current generator options
+ * @param {Function} onOptionsChange - Callback when an option changes
+ * @param {Function} onGenerate - Callback to generate the base colors
+ */
+
+'use client';
+
+import { GeneratorOptions } from '@/types/color.types';
+import { DEFAULT_GENERATOR_OPTIONS } from '@/lib/palette-generator';
+import { randomSeed } from '@/lib/random';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface GeneratorPanelProps {
+  options: GeneratorOptions;
+  onOptionsChange: (options: GeneratorOptions) => void;
+  onGenerate: () => void;
+}
+
+// Highest chroma offered: about the most any sRGB color reaches in OKLCH
+const MAX_CHROMA = 0.37;
+
+export default function GeneratorPanel({ options, onOptionsChange, onGenerate }: GeneratorPanelProps) {
+  const { t } = useLanguage();
+  const colorCount = options.colorCount ?? DEFAULT_GENERATOR_OPTIONS.colorCount;
+  const [minLightness, maxLightness] = options.lightnessRange ?? DEFAULT_GENERATOR_OPTIONS.lightnessRange;
+  const [minChroma, maxChroma] = options.chromaRange ?? DEFAULT_GENERATOR_OPTIONS.chromaRange;
+
+  const sliderClassName = 'w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white';
+
+  return (
+    <div className="space-y-4 p-4 bg-white dark:bg-background border border-border dark:border-border rounded-lg">
+      <h3 className="text-sm font-semibold">{t.generator.title}</h3>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">
+          {t.generator.colorCount}: {colorCount}
+        </label>
+        <input
+          type="range"
+          min="2"
+          max="12"
+          value={colorCount}
+          onChange={(e) => onOptionsChange({ ...options, colorCount: parseInt(e.target.value) })}
+          className={sliderClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div>
+          <label className="block text-xs text-muted dark:text-muted mb-1">
+            {t.generator.minLightness}: {minLightness}%
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={minLightness}
+            onChange={(e) => onOptionsChange({
+              ...options,
+              lightnessRange: [Math.min(parseInt(e.target.value), maxLightness), maxLightness]
+            })}
+            className={sliderClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted dark:text-muted mb-1">
+            {t.generator.maxLightness}: {maxLightness}%
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={maxLightness}
+            onChange={(e) => onOptionsChange({
+              ...options,
+              lightnessRange: [minLightness, Math.max(parseInt(e.target.value), minLightness)]
+            })}
+            className={sliderClassName}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div>
+          <label className="block text-xs text-muted dark:text-muted mb-1">
+            {t.generator.minChroma}: {minChroma.toFixed(2)}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max={MAX_CHROMA}
+            step="0.01"
+            value={minChroma}
+            onChange={(e) => onOptionsChange({
+              ...options,
+              chromaRange: [Math.min(parseFloat(e.target.value), maxChroma), maxChroma]
+            })}
+            className={sliderClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted dark:text-muted mb-1">
+            {t.generator.maxChroma}: {maxChroma.toFixed(2)}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max={MAX_CHROMA}
+            step="0.01"
+            value={maxChroma}
+            onChange={(e) => onOptionsChange({
+              ...options,
+              chromaRange: [minChroma, Math.max(parseFloat(e.target.value), minChroma)]
+            })}
+            className={sliderClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">
+          {t.generator.seed}
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min="0"
+            value={options.seed ?? ''}
+            onChange={(e) => onOptionsChange({
+              ...options,
+              seed: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)
+            })}
+            className="flex-1 min-w-0 px-3 py-2 text-sm font-mono rounded border border-border dark:border-border bg-white dark:bg-background"
+          />
+          <button
+            onClick={() => onOptionsChange({ ...options, seed: randomSeed() })}
+            className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+            aria-label={t.generator.randomSeed}
+            title={t.generator.randomSeed}
+          >
+            ↻
+          </button>
+        </div>
+      </div>
+
+      {/* Focus is released so the space bar regenerates instead of pressing the button again */}
+      <button
+        onClick={(e) => {
+          onGenerate();
+          e.currentTarget.blur();
+        }}
+        className="w-full px-3 py-2 text-sm font-medium rounded border transition-all bg-black dark:bg-white text-white dark:text-black border-black dark:border-white hover:bg-gray-800 dark:hover:bg-gray-200"
+      >
+        {t.generator.generate}
+      </button>
+      <p className="text-xs text-muted dark:text-muted">{t.generator.spaceHint}</p>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * GradientBuilder Component
+ * December 2025
+ *
+ * Builds a multi-stop gradient from palette colors, with a live preview.
+ *
+ * Features:
+ * - Stops picked by clicking palette colors, in order (a color can be used twice)
+ * - Linear, radial or conic shape, with an angle for linear and conic ones
+ * - Interpolation in sRGB, linear RGB, OKLab, OKLCH (shorter or longer hue) or HSL
+ * - A row of N evenly spaced colors sampled along the gradient
+ * - Export as CSS (with a fallback), SVG, or the N-step color list
+ *
+ * @component GradientBuilder
+ * @param {Color[]} colors - Colors stops can be picked from (the whole palette)
+ * @param {ColorFormat} format - Color format used to show values (optional, HEX by default)
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Color, ColorFormat, Gradient, GradientInterpolation, GradientShape } from '@/types/color.types';
+import { DEFAULT_GRADIENT, gradientToFallbackCSS, sampleGradient } from '@/lib/gradients';
+import { exportGradientAsCSS, exportGradientAsSVG, exportGradientSteps } from '@/lib/export-utils';
+import { formatColor, DEFAULT_COLOR_FORMAT } from '@/lib/color-format';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface GradientBuilderProps {
+  colors: Color[];
+  format?: ColorFormat;
+}
+
+// Number of discrete colors sampled by default, and the range offered
+const DEFAULT_STEPS = 5;
+const MIN_STEPS = 2;
+const MAX_STEPS = 32;
+
+export default function GradientBuilder({ colors, format = DEFAULT_COLOR_FORMAT }: GradientBuilderProps) {
+  const { t } = useLanguage();
+  const [stops, setStops] = useState<Color[]>([]);
+  const [shape, setShape] = useState<GradientShape>(DEFAULT_GRADIENT.shape);
+  const [interpolation, setInterpolation] = useState<GradientInterpolation>(DEFAULT_GRADIENT.interpolation);
+  const [angle, setAngle] = useState(DEFAULT_GRADIENT.angle);
+  const [steps, setSteps] = useState(DEFAULT_STEPS);
+
+  const gradient = useMemo<Gradient | null>(
+    () => (stops.length >= 2 ? { stops, shape, interpolation, angle } : null),
+    [stops, shape, interpolation, angle]
+  );
+  const preview = useMemo(() => (gradient ? gradientToFallbackCSS(gradient) : null), [gradient]);
+  const sampled = useMemo(
+    () => (stops.length >= 2 ? sampleGradient(stops, steps, interpolation) : []),
+    [stops, steps, interpolation]
+  );
+
+  if (colors.length === 0) {
+    return (
+      <div className="text-center p-10 text-muted dark:text-muted">
+        <p>{t.colors.placeholder}</p>
+      </div>
+    );
+  }
+
+  const shapes: { value: GradientShape; label: string }[] = [
+    { value: 'linear', label: t.gradient.linear },
+    { value: 'radial', label: t.gradient.radial },
+    { value: 'conic', label: t.gradient.conic }
+  ];
+
+  const interpolations: { value: GradientInterpolation; label: string }[] = [
+    { value: 'srgb', label: 'sRGB' },
+    { value: 'srgb-linear', label: t.gradient.linearRgb },
+    { value: 'oklab', label: 'OKLab' },
+    { value: 'oklch-shorter', label: t.gradient.oklchShorter },
+    { value: 'oklch-longer', label: t.gradient.oklchLonger },
+    { value: 'hsl', label: 'HSL' }
+  ];
+
+  const optionClassName = (selected: boolean) => `
+    px-3 py-2 text-sm rounded border transition-all
+    ${
+      selected
+        ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+        : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+    }
+  `;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="block text-xs text-muted dark:text-muted">{t.gradient.pick}</span>
+        <div className="flex flex-wrap gap-2" role="group" aria-label={t.gradient.pick}>
+          {colors.map((color, index) => (
+            <button
+              key={index}
+              onClick={() => setStops([...stops, color])}
+              aria-label={`${t.gradient.addStop}: ${color.hex}`}
+              title={color.hex}
+              className="w-7 h-7 rounded border-2 border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+              style={{ backgroundColor: color.hex }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted dark:text-muted">{t.gradient.stops}</span>
+          {stops.length > 0 && (
+            <button
+              onClick={() => setStops([])}
+              className="text-xs underline hover:no-underline"
+            >
+              {t.gradient.clear}
+            </button>
+          )}
+        </div>
+        {stops.length > 0 && (
+          <ol className="flex flex-wrap gap-2">
+            {stops.map((color, index) => (
+              <li key={index} className="flex items-center gap-1 pl-1 pr-2 py-1 rounded border border-border text-xs font-mono">
+                <span className="w-4 h-4 rounded border border-border" style={{ backgroundColor: color.hex }} aria-hidden="true" />
+                {color.hex}
+                <button
+                  onClick={() => setStops(stops.filter((_, idx) => idx !== index))}
+                  aria-label={`${t.gradient.removeStop}: ${color.hex}`}
+                  title={t.gradient.removeStop}
+                  className="ml-1 hover:opacity-60"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        {stops.length < 2 && (
+          <p className="text-xs text-muted dark:text-muted">{t.gradient.needStops}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2" role="group" aria-label={t.gradient.shape}>
+        {shapes.map((item) => (
+          <button
+            key={item.value}
+            onClick={() => setShape(item.value)}
+            aria-pressed={shape === item.value}
+            className={optionClassName(shape === item.value)}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <span className="block text-xs text-muted dark:text-muted">{t.gradient.interpolation}</span>
+        <div className="grid grid-cols-3 gap-2" role="group" aria-label={t.gradient.interpolation}>
+          {interpolations.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => setInterpolation(item.value)}
+              aria-pressed={interpolation === item.value}
+              className={optionClassName(interpolation === item.value)}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {shape !== 'radial' && (
+        <label htmlFor="gradient-angle" className="block text-xs text-muted dark:text-muted space-y-1">
+          <span>{t.gradient.angle}: {angle}°</span>
+          <input
+            id="gradient-angle"
+            type="range"
+            min={0}
+            max={360}
+            step={5}
+            value={angle}
+            onChange={(e) => setAngle(parseInt(e.target.value))}
+            className="w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+          />
+        </label>
+      )}
+
+      {gradient && preview && (
+        <>
+          <div
+            className="h-32 rounded-lg border border-border"
+            style={{ background: preview }}
+            role="img"
+            aria-label={t.gradient.preview}
+          />
+
+          <label htmlFor="gradient-steps" className="block text-xs text-muted dark:text-muted space-y-1">
+            <span>{t.gradient.steps}: {steps}</span>
+            <input
+              id="gradient-steps"
+              type="range"
+              min={MIN_STEPS}
+              max={MAX_STEPS}
+              value={steps}
+              onChange={(e) => setSteps(parseInt(e.target.value))}
+              className="w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+            />
+          </label>
+
+          <div className="flex gap-px">
+            {sampled.map((color, index) => (
+              <div
+                key={index}
+                className="flex-1 h-10 border border-border"
+                style={{ backgroundColor: color.hex }}
+                title={formatColor(color, format)}
+              />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => exportGradientAsCSS(gradient)}
+              className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+            >
+              {t.gradient.exportCss}
+            </button>
+            <button
+              onClick={() => exportGradientAsSVG(gradient)}
+              className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+            >
+              {t.gradient.exportSvg}
+            </button>
+            <button
+              onClick={() => exportGradientSteps(sampled)}
+              className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+            >
+              {t.gradient.exportSteps}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
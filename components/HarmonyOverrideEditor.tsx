@@ -0,0 +1,118 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * HarmonyOverrideEditor Component
+ * December 2025
+ *
+ * Harmony settings of a single base color: its own harmony mode (built in
+ * or a saved custom rule) and ring count, or no harmony at all. Anything
+ * left on "global" follows the settings of the harmony panel.
+ *
+ * @component HarmonyOverrideEditor
+ * @param {HarmonyOverride} override - Current settings of the color (optional, all global when missing)
+ * @param {HarmonyRule[]} rules - Saved custom harmony rules (optional)
+ * @param {Function} onChange - Callback with the new settings, or undefined when everything is global
+ */
+
+'use client';
+
+import { HarmonyMode, HarmonyOverride, HarmonyRule } from '@/types/color.types';
+import { canonicalHarmonyMode } from '@/lib/color-algorithms';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface HarmonyOverrideEditorProps {
+  override?: HarmonyOverride;
+  rules?: HarmonyRule[];
+  onChange: (override: HarmonyOverride | undefined) => void;
+}
+
+// Select values that are not a harmony mode
+const GLOBAL = 'global';
+const NONE = 'none';
+const RULE_PREFIX = 'rule:';
+
+// Ring counts offered, as in the harmony panel
+const RING_COUNTS = Array.from({ length: 10 }, (_, idx) => idx + 3);
+
+export default function HarmonyOverrideEditor({ override, rules = [], onChange }: HarmonyOverrideEditorProps) {
+  const { t } = useLanguage();
+
+  const harmonyModes: { value: HarmonyMode; label: string }[] = [
+    { value: 'complementary', label: t.harmony.complementary },
+    { value: 'analogous', label: t.harmony.analogous },
+    { value: 'triadic', label: t.harmony.triadic },
+    { value: 'square', label: t.harmony.square },
+    { value: 'rectangle', label: t.harmony.rectangle },
+    { value: 'split-complementary', label: t.harmony.splitComplementary },
+    { value: 'double-split-complementary', label: t.harmony.doubleSplitComplementary },
+    { value: 'compound', label: t.harmony.compound },
+    { value: 'monochromatic', label: t.harmony.monochromatic },
+    { value: 'shades', label: t.harmony.shades }
+  ];
+
+  const modeValue = override?.disabled
+    ? NONE
+    : override?.mode === undefined
+      ? GLOBAL
+      : typeof override.mode === 'string'
+        ? canonicalHarmonyMode(override.mode)
+        : RULE_PREFIX + override.mode.id;
+
+  // Drop fields set back to global; no fields left means no override
+  const update = (changes: Partial<HarmonyOverride>) => {
+    const next = { ...override, ...changes };
+    const cleaned: HarmonyOverride = {
+      ...(next.mode !== undefined && { mode: next.mode }),
+      ...(next.rings !== undefined && { rings: next.rings }),
+      ...(next.disabled && { disabled: true })
+    };
+    onChange(Object.keys(cleaned).length > 0 ? cleaned : undefined);
+  };
+
+  const handleModeChange = (value: string) => {
+    if (value === NONE) {
+      update({ disabled: true });
+    } else if (value === GLOBAL) {
+      update({ mode: undefined, disabled: false });
+    } else if (value.startsWith(RULE_PREFIX)) {
+      update({ mode: rules.find(rule => RULE_PREFIX + rule.id === value), disabled: false });
+    } else {
+      update({ mode: value as HarmonyMode, disabled: false });
+    }
+  };
+
+  const selectClassName = 'min-w-0 px-2 py-1 text-xs rounded border border-border dark:border-border bg-white dark:bg-background text-foreground dark:text-foreground';
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={modeValue}
+        onChange={(e) => handleModeChange(e.target.value)}
+        aria-label={t.harmonyOverride.mode}
+        className={`flex-1 ${selectClassName}`}
+      >
+        <option value={GLOBAL}>{t.harmonyOverride.global}</option>
+        {harmonyModes.map((mode) => (
+          <option key={mode.value} value={mode.value}>{mode.label}</option>
+        ))}
+        {rules.map((rule) => (
+          <option key={rule.id} value={RULE_PREFIX + rule.id}>{rule.name}</option>
+        ))}
+        <option value={NONE}>{t.harmonyOverride.none}</option>
+      </select>
+      <select
+        value={override?.rings ?? GLOBAL}
+        onChange={(e) => update({ rings: e.target.value === GLOBAL ? undefined : parseInt(e.target.value) })}
+        disabled={override?.disabled}
+        aria-label={t.harmonyOverride.rings}
+        className={`w-20 ${selectClassName} disabled:opacity-50`}
+      >
+        <option value={GLOBAL}>{t.harmonyOverride.global}</option>
+        {RING_COUNTS.map((count) => (
+          <option key={count} value={count}>{count}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
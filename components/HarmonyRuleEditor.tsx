@@ -0,0 +1,223 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * HarmonyRuleEditor Component
+ * December 2025
+ *
+ * Editor for custom harmony rules. A rule is a named list of hue offsets,
+ * lightness steps and saturation multipliers; saved rules appear in the
+ * harmony selector next to the built-in modes.
+ *
+ * Features:
+ * - Values typed as comma-separated lists
+ * - Saving under an existing name replaces that rule
+ * - Import and export of every saved rule as a JSON file
+ * - Errors are marked with an icon and text, never by color alone
+ *
+ * @component HarmonyRuleEditor
+ * @param {HarmonyRule[]} rules - Saved rules
+ * @param {Function} onSave - Callback with a new or replaced rule
+ * @param {Function} onDelete - Callback with the id of the rule to delete
+ * @param {Function} onImport - Callback with the rules read from a file
+ * @param {boolean} saveFailed - Whether the rules could not be saved in this browser (optional)
+ */
+
+'use client';
+
+import { FormEvent, useRef, useState } from 'react';
+import { HarmonyRule } from '@/types/color.types';
+import {
+  createHarmonyRule,
+  parseHarmonyRules,
+  parseValueList,
+  HarmonyRuleError,
+  HarmonyRuleErrorReason
+} from '@/lib/harmony-rules';
+import { exportHarmonyRules } from '@/lib/export-utils';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface HarmonyRuleEditorProps {
+  rules: HarmonyRule[];
+  onSave: (rule: HarmonyRule) => void;
+  onDelete: (id: string) => void;
+  onImport: (rules: HarmonyRule[]) => void;
+  saveFailed?: boolean;
+}
+
+export default function HarmonyRuleEditor({ rules, onSave, onDelete, onImport, saveFailed = false }: HarmonyRuleEditorProps) {
+  const { t } = useLanguage();
+  const [name, setName] = useState('');
+  const [hues, setHues] = useState('0, 120, 240');
+  const [lightness, setLightness] = useState('-10, 0, 10');
+  const [saturation, setSaturation] = useState('1');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const errorMessages: Record<HarmonyRuleErrorReason, string> = {
+    'empty-name': t.harmonyRules.errors.emptyName,
+    'empty-list': t.harmonyRules.errors.emptyList,
+    'invalid-value': t.harmonyRules.errors.invalidValue,
+    'invalid-file': t.harmonyRules.errors.invalidFile
+  };
+
+  const showError = (err: unknown) => {
+    if (!(err instanceof HarmonyRuleError)) throw err;
+    setError(err.detail ? `${errorMessages[err.reason]}: ${err.detail}` : errorMessages[err.reason]);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const existing = rules.find(rule => rule.name === name.trim());
+      onSave(createHarmonyRule(
+        name,
+        parseValueList(hues),
+        parseValueList(lightness),
+        parseValueList(saturation),
+        existing?.id
+      ));
+      setName('');
+      setError(null);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  // Fill the form with a saved rule, to edit it
+  const handleEdit = (rule: HarmonyRule) => {
+    setName(rule.name);
+    setHues(rule.hues.join(', '));
+    setLightness(rule.lightness.join(', '));
+    setSaturation(rule.saturation.join(', '));
+    setError(null);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(parseHarmonyRules(await file.text()));
+      setError(null);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const fields = [
+    { id: 'rule-hues', label: t.harmonyRules.hues, value: hues, onChange: setHues },
+    { id: 'rule-lightness', label: t.harmonyRules.lightness, value: lightness, onChange: setLightness },
+    { id: 'rule-saturation', label: t.harmonyRules.saturation, value: saturation, onChange: setSaturation }
+  ];
+
+  return (
+    <div className="space-y-3 p-4 bg-white dark:bg-background border border-border dark:border-border rounded-lg">
+      <h3 className="text-sm font-semibold">{t.harmonyRules.title}</h3>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+            placeholder={t.harmonyRules.namePlaceholder}
+            aria-label={t.harmonyRules.name}
+            className="flex-1 min-w-0 px-3 py-2 text-sm rounded border border-border dark:border-border bg-white dark:bg-background"
+          />
+          <button
+            type="submit"
+            className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+          >
+            {t.harmonyRules.save}
+          </button>
+        </div>
+
+        {fields.map((field) => (
+          <label key={field.id} htmlFor={field.id} className="block text-xs text-muted dark:text-muted space-y-1">
+            <span>{field.label}</span>
+            <input
+              id={field.id}
+              type="text"
+              value={field.value}
+              onChange={(e) => {
+                field.onChange(e.target.value);
+                setError(null);
+              }}
+              spellCheck={false}
+              autoComplete="off"
+              className="w-full px-3 py-2 text-sm font-mono rounded border border-border dark:border-border bg-white dark:bg-background text-foreground dark:text-foreground"
+            />
+          </label>
+        ))}
+
+        <p className="text-xs text-muted dark:text-muted">{t.harmonyRules.hint}</p>
+
+        {error && (
+          <p role="alert" className="text-xs font-medium">
+            <span className="mr-1" aria-hidden="true">⚠</span>
+            {error}
+          </p>
+        )}
+      </form>
+
+      {saveFailed && (
+        <p role="alert" className="text-xs font-medium">
+          <span className="mr-1" aria-hidden="true">⚠</span>
+          {t.harmonyRules.errors.notSaved}
+        </p>
+      )}
+
+      {rules.length > 0 && (
+        <ul className="space-y-1">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center gap-2 text-sm">
+              <button
+                onClick={() => handleEdit(rule)}
+                className="flex-1 min-w-0 truncate text-left hover:underline"
+              >
+                {rule.name}
+              </button>
+              <button
+                onClick={() => onDelete(rule.id)}
+                className="text-xs text-muted dark:text-muted hover:text-foreground dark:hover:text-foreground"
+                aria-label={`${t.harmonyRules.delete} ${rule.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+        >
+          {t.harmonyRules.import}
+        </button>
+        <button
+          onClick={() => exportHarmonyRules(rules)}
+          disabled={rules.length === 0}
+          className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t.harmonyRules.export}
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+    </div>
+  );
+}
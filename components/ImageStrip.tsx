@@ -0,0 +1,163 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * ImageStrip Component
+ * December 2025
+ *
+ * Thumbnail strip of every image the palette is extracted from.
+ * Allows users to:
+ * - Pick which image is shown (and drawn or painted on)
+ * - Add more images or remove one
+ * - Choose between a merged palette and one palette per image
+ * - Weight each image in the merged palette
+ *
+ * @component ImageStrip
+ * @param {SourceImage[]} images - Loaded images
+ * @param {number} activeIndex - Index of the image being shown
+ * @param {Function} onSelect - Callback with the index of the image to show
+ * @param {Function} onAdd - Callback with images to add
+ * @param {Function} onRemove - Callback with the index of the image to remove
+ * @param {Function} onWeightChange - Callback with an image index and its new weight
+ * @param {PaletteMode} mode - How the palettes of the images are combined
+ * @param {Function} onModeChange - Callback when the palette mode changes
+ */
+
+'use client';
+
+import { PaletteMode, SourceImage } from '@/types/color.types';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useRef } from 'react';
+
+interface ImageStripProps {
+  images: SourceImage[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onAdd: (files: File[]) => void;
+  onRemove: (index: number) => void;
+  onWeightChange: (index: number, weight: number) => void;
+  mode: PaletteMode;
+  onModeChange: (mode: PaletteMode) => void;
+}
+
+export default function ImageStrip({
+  images,
+  activeIndex,
+  onSelect,
+  onAdd,
+  onRemove,
+  onWeightChange,
+  mode,
+  onModeChange
+}: ImageStripProps) {
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const modes: { value: PaletteMode; label: string }[] = [
+    { value: 'merged', label: t.images.merged },
+    { value: 'per-image', label: t.images.perImage }
+  ];
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) {
+      onAdd(files);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-white dark:bg-background border border-border dark:border-border rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">
+          {t.images.title} ({images.length})
+        </h3>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-xs text-muted dark:text-muted hover:text-foreground dark:hover:text-foreground transition-colors"
+        >
+          + {t.images.add}
+        </button>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {images.map((image, index) => (
+          <div key={image.id} className="flex-shrink-0 w-20 space-y-1">
+            <div className="relative">
+              <button
+                onClick={() => onSelect(index)}
+                aria-pressed={index === activeIndex}
+                aria-label={`${t.images.image} ${index + 1}`}
+                className={`block w-20 h-20 rounded overflow-hidden border-2 transition-all ${
+                  index === activeIndex
+                    ? 'border-black dark:border-white'
+                    : 'border-transparent hover:border-border dark:hover:border-border'
+                }`}
+              >
+                <img src={image.url} alt={image.file.name} className="w-full h-full object-cover" />
+              </button>
+              <span className="absolute top-1 left-1 px-1 text-[10px] font-mono font-bold rounded bg-black/70 text-white">
+                {index + 1}
+              </span>
+              {images.length > 1 && (
+                <button
+                  onClick={() => onRemove(index)}
+                  className="absolute top-1 right-1 w-4 h-4 text-[10px] leading-4 rounded bg-black/70 text-white hover:bg-black"
+                  aria-label={`${t.images.remove} ${index + 1}`}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+
+            {mode === 'merged' && images.length > 1 && (
+              <label className="block text-[10px] text-muted dark:text-muted" title={t.images.weight}>
+                <input
+                  type="range"
+                  min="0"
+                  max="3"
+                  step="0.25"
+                  value={image.weight}
+                  onChange={(e) => onWeightChange(index, parseFloat(e.target.value))}
+                  className="w-full h-1 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+                  aria-label={`${t.images.weight} ${index + 1}`}
+                />
+                <span className="font-mono">×{image.weight}</span>
+              </label>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {images.length > 1 && (
+        <div className="grid grid-cols-2 gap-2">
+          {modes.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => onModeChange(item.value)}
+              className={`
+                px-3 py-2 text-sm rounded border transition-all
+                ${
+                  mode === item.value
+                    ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                    : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+                }
+              `}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+    </div>
+  );
+}
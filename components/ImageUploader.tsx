@@ -9,7 +9,7 @@
  * for the uploaded image and the ColorIndicators overlay.
  *
  * Features:
- * - Drag and drop image upload
+ * - Drag and drop image upload (several images at once)
  * - Click to browse file system
  * - Visual feedback during drag operations
  * - Displays uploaded image with proper containment
@@ -18,15 +18,16 @@
  *
  * Technical details:
  * - Uses forwardRef to expose container div to parent
- * - Validates that dropped files are images
+ * - Validates that dropped files are images (non-images are skipped)
  * - Prevents file input trigger when clicking on children (indicators)
  * - Responsive layout with min-height constraint
  *
  * @component ImageUploader
- * @param {Function} onImageLoad - Callback when image is loaded
+ * @param {Function} onImagesLoad - Callback with the images that were dropped or chosen
  * @param {string} currentImage - URL of the currently loaded image
  * @param {ReactNode} children - Child components to overlay on the image
  * @param {RefObject} imageRef - Reference to the image element
+ * @param {RefObject} fileInputRef - Reference to the file input, to open the file picker from outside
  */
 
 'use client';
@@ -34,16 +35,18 @@
 import { useState, useRef, DragEvent, forwardRef } from 'react';
 
 interface ImageUploaderProps {
-  onImageLoad: (file: File) => void;
+  onImagesLoad: (files: File[]) => void;
   currentImage?: string;
   children?: React.ReactNode;
   imageRef?: React.RefObject<HTMLImageElement | null>;
+  fileInputRef?: React.RefObject<HTMLInputElement | null>;
 }
 
 const ImageUploader = forwardRef<HTMLDivElement, ImageUploaderProps>(
-  ({ onImageLoad, currentImage, children, imageRef }, ref) => {
+  ({ onImagesLoad, currentImage, children, imageRef, fileInputRef: externalFileInputRef }, ref) => {
     const [isDragging, setIsDragging] = useState(false);
-    const fileInputRef = useRef<HTMLInputElement>(null);
+    const ownFileInputRef = useRef<HTMLInputElement>(null);
+    const fileInputRef = externalFileInputRef ?? ownFileInputRef;
 
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -58,17 +61,19 @@ const ImageUploader = forwardRef<HTMLDivElement, ImageUploaderProps>(
     e.preventDefault();
     setIsDragging(false);
 
-    const file = e.dataTransfer.files[0];
-    if (file && file.type.startsWith('image/')) {
-      onImageLoad(file);
+    const files = Array.from(e.dataTransfer.files).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) {
+      onImagesLoad(files);
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onImageLoad(file);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      onImagesLoad(files);
     }
+    // Allow choosing the same files again
+    e.target.value = '';
   };
 
   const handleClick = (e: React.MouseEvent) => {
@@ -112,6 +117,7 @@ const ImageUploader = forwardRef<HTMLDivElement, ImageUploaderProps>(
           ref={fileInputRef}
           type="file"
           accept="image/*"
+          multiple
           onChange={handleFileSelect}
           className="hidden"
         />
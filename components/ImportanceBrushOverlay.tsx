@@ -0,0 +1,201 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * ImportanceBrushOverlay Component
+ * December 2025
+ *
+ * Canvas layer on top of the uploaded image for painting which areas
+ * matter most. With the brush weighting, painted pixels count more
+ * during extraction than the rest of the image.
+ *
+ * Features:
+ * - Freehand painting with a round brush
+ * - Painted areas are shown as a translucent white wash
+ * - The importance map is handed over when each stroke ends
+ *
+ * Technical details:
+ * - The canvas has the image's natural size, so its alpha channel is the
+ *   importance map in image coordinates (one byte per pixel)
+ * - Brush size is given in screen pixels and scaled to the image
+ * - Only intercepts pointer events while painting is enabled, and stays
+ *   below the color indicators so they remain draggable
+ *
+ * @component ImportanceBrushOverlay
+ * @param {HTMLImageElement | null} imageElement - Reference to the uploaded image
+ * @param {Uint8Array} importance - Current importance map (cleared when undefined)
+ * @param {boolean} active - Whether painting is enabled
+ * @param {number} brushSize - Brush diameter in screen pixels
+ * @param {Function} onPaint - Callback with the updated importance map after each stroke
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+interface ImportanceBrushOverlayProps {
+  imageElement: HTMLImageElement | null;
+  importance?: Uint8Array;
+  active: boolean;
+  brushSize: number;
+  onPaint: (importance: Uint8Array) => void;
+}
+
+interface ImageFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+export default function ImportanceBrushOverlay({
+  imageElement,
+  importance,
+  active,
+  brushSize,
+  onPaint
+}: ImportanceBrushOverlayProps) {
+  const [frame, setFrame] = useState<ImageFrame | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const drawnMapRef = useRef<Uint8Array | null>(null);
+
+  // Track where the image is displayed inside the container
+  useEffect(() => {
+    if (!imageElement) {
+      setFrame(null);
+      return;
+    }
+
+    const updateFrame = () => {
+      if (!imageElement.naturalWidth) return;
+      setFrame({
+        left: imageElement.offsetLeft,
+        top: imageElement.offsetTop,
+        width: imageElement.offsetWidth,
+        height: imageElement.offsetHeight,
+        naturalWidth: imageElement.naturalWidth,
+        naturalHeight: imageElement.naturalHeight
+      });
+    };
+
+    updateFrame();
+    imageElement.addEventListener('load', updateFrame);
+    window.addEventListener('resize', updateFrame);
+
+    return () => {
+      imageElement.removeEventListener('load', updateFrame);
+      window.removeEventListener('resize', updateFrame);
+    };
+  }, [imageElement]);
+
+  // Resizing the canvas wipes it
+  useEffect(() => {
+    drawnMapRef.current = null;
+  }, [frame?.naturalWidth, frame?.naturalHeight]);
+
+  // Keep the canvas in sync with the importance map (cleared, or restored after remounting)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || (importance ?? null) === drawnMapRef.current) return;
+
+    drawnMapRef.current = importance ?? null;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!importance || importance.length !== canvas.width * canvas.height) return;
+
+    const pixels = ctx.createImageData(canvas.width, canvas.height);
+    importance.forEach((value, idx) => {
+      pixels.data.set([255, 255, 255, value], idx * 4);
+    });
+    ctx.putImageData(pixels, 0, 0);
+  }, [importance, frame?.naturalWidth, frame?.naturalHeight]);
+
+  // Convert a pointer position to image coordinates
+  const toImageCoords = (e: React.PointerEvent): { x: number; y: number } => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * frame!.naturalWidth,
+      y: ((e.clientY - rect.top) / rect.height) * frame!.naturalHeight
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !frame) return;
+
+    const from = lastPointRef.current ?? point;
+    ctx.strokeStyle = 'white';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = brushSize * (frame.naturalWidth / frame.width);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!active || !frame) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    lastPointRef.current = null;
+    paintTo(toImageCoords(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    paintTo(toImageCoords(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPointRef.current = null;
+
+    // The alpha channel of the canvas is the importance map
+    const canvas = e.currentTarget;
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    const map = new Uint8Array(canvas.width * canvas.height);
+    for (let idx = 0; idx < map.length; idx++) {
+      map[idx] = data[idx * 4 + 3];
+    }
+
+    drawnMapRef.current = map;
+    onPaint(map);
+  };
+
+  if (!imageElement || !frame) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={frame.naturalWidth}
+      height={frame.naturalHeight}
+      className="absolute select-none"
+      style={{
+        left: `${frame.left}px`,
+        top: `${frame.top}px`,
+        width: `${frame.width}px`,
+        height: `${frame.height}px`,
+        zIndex: 25,
+        opacity: 0.45,
+        pointerEvents: active ? 'auto' : 'none',
+        cursor: active ? 'crosshair' : undefined,
+        touchAction: 'none'
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onClick={(e) => e.stopPropagation()}
+    />
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * ImportanceBrushToolbar Component
+ * December 2025
+ *
+ * Controls for the importance brush used by the brush weighting.
+ * Allows users to:
+ * - Turn painting on the image on and off
+ * - Change the brush size
+ * - Clear everything painted so far
+ *
+ * Painted areas count more than the rest of the image when colors are
+ * extracted, and weigh in when picking each color's position.
+ *
+ * @component ImportanceBrushToolbar
+ * @param {boolean} active - Whether painting is enabled
+ * @param {Function} onActiveChange - Callback when painting is turned on or off
+ * @param {number} brushSize - Brush diameter in screen pixels
+ * @param {Function} onBrushSizeChange - Callback when the brush size changes
+ * @param {boolean} hasPainting - Whether anything has been painted
+ * @param {Function} onClear - Callback to clear the painting
+ */
+
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface ImportanceBrushToolbarProps {
+  active: boolean;
+  onActiveChange: (active: boolean) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  hasPainting: boolean;
+  onClear: () => void;
+}
+
+export default function ImportanceBrushToolbar({
+  active,
+  onActiveChange,
+  brushSize,
+  onBrushSizeChange,
+  hasPainting,
+  onClear
+}: ImportanceBrushToolbarProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-3 p-4 bg-white dark:bg-background border border-border dark:border-border rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">{t.brush.title}</h3>
+        {hasPainting && (
+          <button
+            onClick={onClear}
+            className="text-xs text-muted dark:text-muted hover:text-foreground dark:hover:text-foreground transition-colors"
+          >
+            {t.brush.clear}
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onActiveChange(!active)}
+          aria-pressed={active}
+          className={`
+            px-3 py-2 text-sm rounded border transition-all
+            ${
+              active
+                ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+            }
+          `}
+        >
+          <span className="mr-1 opacity-60">✎</span>
+          {t.brush.paint}
+        </button>
+
+        <label className="flex-1 flex items-center gap-2 text-xs text-muted dark:text-muted">
+          {t.brush.size}
+          <input
+            type="range"
+            min="5"
+            max="100"
+            value={brushSize}
+            onChange={(e) => onBrushSizeChange(parseInt(e.target.value))}
+            className="flex-1 h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+          />
+          <span className="w-10 text-right font-mono">{brushSize}px</span>
+        </label>
+      </div>
+
+      <p className="text-xs text-muted dark:text-muted">{t.brush.hint}</p>
+    </div>
+  );
+}
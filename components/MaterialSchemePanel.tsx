@@ -0,0 +1,175 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * MaterialSchemePanel Component
+ * December 2025
+ *
+ * Preview of the Material Design 3 scheme built from one of the base
+ * colors: its color roles in the light or dark theme and the HCT tonal
+ * palettes they come from.
+ *
+ * Features:
+ * - Seed chosen among the base colors
+ * - Light / dark theme toggle
+ * - Each role pair shown as a tile painted in the role with its "on" color
+ *   as text, so contrast can be judged at a glance
+ * - Tonal palettes (tones 0-100) one row each
+ * - Export as Android colors.xml or Material Theme JSON
+ *
+ * @component MaterialSchemePanel
+ * @param {Color[]} seeds - Colors that can be used as seed (the base colors)
+ * @param {number} seedIndex - Index of the current seed in seeds
+ * @param {Function} onSeedChange - Callback with the index of the new seed
+ * @param {MaterialScheme | null} scheme - Scheme of the current seed
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Color } from '@/types/color.types';
+import { MaterialScheme, MaterialRole, MATERIAL_TONES } from '@/lib/material-scheme';
+import { exportMaterialAsAndroidXML, exportMaterialAsJSON } from '@/lib/export-utils';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface MaterialSchemePanelProps {
+  seeds: Color[];
+  seedIndex: number;
+  onSeedChange: (index: number) => void;
+  scheme: MaterialScheme | null;
+}
+
+// Role tiles of the preview, as [role, role drawn on top of it]
+const ROLE_PAIRS: [MaterialRole, MaterialRole][] = [
+  ['primary', 'onPrimary'],
+  ['primaryContainer', 'onPrimaryContainer'],
+  ['secondary', 'onSecondary'],
+  ['secondaryContainer', 'onSecondaryContainer'],
+  ['tertiary', 'onTertiary'],
+  ['tertiaryContainer', 'onTertiaryContainer'],
+  ['error', 'onError'],
+  ['errorContainer', 'onErrorContainer'],
+  ['surface', 'onSurface'],
+  ['surfaceVariant', 'onSurfaceVariant'],
+  ['inverseSurface', 'inverseOnSurface'],
+  ['outline', 'surface'],
+];
+
+export default function MaterialSchemePanel({ seeds, seedIndex, onSeedChange, scheme }: MaterialSchemePanelProps) {
+  const { t } = useLanguage();
+  const [theme, setTheme] = useState<'light' | 'dark'>('light');
+
+  if (!scheme) {
+    return (
+      <div className="text-center p-10 text-muted dark:text-muted">
+        <p>{t.colors.placeholder}</p>
+      </div>
+    );
+  }
+
+  const roles = scheme[theme];
+  const themes: { value: 'light' | 'dark'; label: string }[] = [
+    { value: 'light', label: t.material.light },
+    { value: 'dark', label: t.material.dark }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="block text-xs text-muted dark:text-muted">{t.material.seed}</span>
+        <div className="flex flex-wrap gap-2" role="group" aria-label={t.material.seed}>
+          {seeds.map((color, index) => (
+            <button
+              key={index}
+              onClick={() => onSeedChange(index)}
+              aria-pressed={index === seedIndex}
+              aria-label={color.hex}
+              title={color.hex}
+              className={`w-7 h-7 rounded border-2 transition-all ${
+                index === seedIndex
+                  ? 'border-black dark:border-white scale-110'
+                  : 'border-border dark:border-border hover:border-black dark:hover:border-white'
+              }`}
+              style={{ backgroundColor: color.hex }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2" role="group" aria-label={t.material.theme}>
+        {themes.map((item) => (
+          <button
+            key={item.value}
+            onClick={() => setTheme(item.value)}
+            aria-pressed={theme === item.value}
+            className={`
+              px-3 py-2 text-sm rounded border transition-all
+              ${
+                theme === item.value
+                  ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                  : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+              }
+            `}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <div
+        className="grid grid-cols-2 gap-1 p-2 rounded-lg border border-border"
+        style={{ backgroundColor: roles.background.hex }}
+      >
+        {ROLE_PAIRS.map(([role, onRole]) => (
+          <div
+            key={role}
+            className="px-2 py-3 rounded text-[10px] font-mono truncate"
+            style={{ backgroundColor: roles[role].hex, color: roles[onRole].hex }}
+            title={`${role}: ${roles[role].hex} / ${onRole}: ${roles[onRole].hex}`}
+          >
+            {role}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <h3 className="text-sm font-semibold">{t.material.palettes}</h3>
+        <div className="grid grid-cols-[repeat(13,minmax(0,1fr))] gap-px text-[7px] font-mono text-center text-muted dark:text-muted">
+          {MATERIAL_TONES.map(tone => (
+            <span key={tone}>{tone}</span>
+          ))}
+        </div>
+        {scheme.palettes.map((palette) => (
+          <div key={palette.name}>
+            <span className="block text-[10px] font-mono text-muted dark:text-muted">{palette.name}</span>
+            <div className="grid grid-cols-[repeat(13,minmax(0,1fr))] gap-px">
+              {palette.tones.map(({ tone, color }) => (
+                <div
+                  key={tone}
+                  className="aspect-square border border-border"
+                  style={{ backgroundColor: color.hex }}
+                  title={`${palette.name} ${tone}: ${color.hex}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => exportMaterialAsAndroidXML(scheme)}
+          className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+        >
+          {t.material.exportAndroid}
+        </button>
+        <button
+          onClick={() => exportMaterialAsJSON(scheme)}
+          className="px-3 py-2 text-sm rounded border border-border dark:border-border hover:border-black dark:hover:border-white transition-all"
+        >
+          {t.material.exportJson}
+        </button>
+      </div>
+    </div>
+  );
+}
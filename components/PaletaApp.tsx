@@ -9,17 +9,33 @@
  * extraction and generation workflow. It manages:
  *
  * Features:
- * - Image upload and processing
- * - K-means color extraction (5 dominant colors)
+ * - Image upload and processing in a Web Worker (with progress and cancellation)
+ * - Palettes generated without an image (seeded, following the harmony mode), with locked colors
+ *   kept and the space bar regenerating the others
+ * - Several source images, merged into one weighted palette or kept per image
+ * - Color extraction with k-means, median cut, octree or MMCQ (2-16 dominant colors)
  * - Complementary color generation with configurable rings (3-12)
- * - Multiple harmony modes (complementary, analogous, triadic, tetradic, split-complementary)
+ * - Per-base-color harmony mode and ring count, or no harmony for a color
+ * - Multiple harmony modes (complementary, analogous, triadic, square, rectangle, split and
+ *   double split complementary, compound, monochromatic, shades)
+ * - Harmonies generated in OKLCH (perceptually even) or HSL (legacy)
+ * - Saturation/chroma multiplier, per-ring falloff and chroma normalization across base colors
+ * - Custom harmony rules, saved in the browser and shared as JSON
+ * - Tailwind-style 50-950 tonal scales of the base colors, with Tailwind/CSS export
+ * - Material 3 HCT tonal palettes and light/dark schemes, with Android export
+ * - Contrast-targeted ramps (WCAG 2 ratios or APCA Lc) against white and black
+ * - Gradient builder between palette colors, interpolated in sRGB, linear RGB, OKLab, OKLCH or HSL
  * - Real-time color updates via draggable indicators
+ * - Extra base colors typed in any CSS color syntax
+ * - Color values shown and copied as HEX, RGB, HSL, HSV, HWB, LAB, LCH, OKLab, OKLCH or XYZ
+ * - Wide-gamut (Display P3) sampling and export, with sRGB fallbacks
+ * - Regions of interest (rectangle, ellipse, lasso), each with its own base colors
  * - Palette export in multiple formats (PNG, JSON, CSS, SVG)
  * - Dark mode support
  * - Internationalization (Spanish/English)
  *
  * State management:
- * - Image data and metadata
+ * - Source images with their pixels, regions and painted importance
  * - Base colors extracted from image
  * - Generated palette with all color variations
  * - UI state (selected color, processing status)
@@ -30,70 +46,385 @@
 
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import ImageUploader from '@/components/ImageUploader';
 import ColorList from '@/components/ColorList';
 import RingSelector from '@/components/RingSelector';
+import ExtractionPanel from '@/components/ExtractionPanel';
 import PaletteGrid from '@/components/PaletteGrid';
 import ExportMenu from '@/components/ExportMenu';
+import MaterialSchemePanel from '@/components/MaterialSchemePanel';
+import ContrastRampPanel from '@/components/ContrastRampPanel';
+import GradientBuilder from '@/components/GradientBuilder';
+import GeneratorPanel from '@/components/GeneratorPanel';
 import ColorIndicators from '@/components/ColorIndicators';
+import RegionOverlay from '@/components/RegionOverlay';
+import RegionToolbar from '@/components/RegionToolbar';
+import ImportanceBrushOverlay from '@/components/ImportanceBrushOverlay';
+import ImportanceBrushToolbar from '@/components/ImportanceBrushToolbar';
+import ImageStrip from '@/components/ImageStrip';
+import ColorFormatSelector from '@/components/ColorFormatSelector';
+import HarmonyRuleEditor from '@/components/HarmonyRuleEditor';
 import ThemeToggle from '@/components/ThemeToggle';
 import LanguageToggle from '@/components/LanguageToggle';
 import Footer from '@/components/Footer';
-import { Color, HarmonyMode } from '@/types/color.types';
-import { loadImageFromFile, getImageData } from '@/lib/canvas-utils';
-import { extractColorsKMeans, generateComplementaryColors } from '@/lib/color-algorithms';
+import {
+  Color,
+  ColorCountAnalysis,
+  ColorFormat,
+  HarmonyMode,
+  HarmonyOptions,
+  HarmonyOverride,
+  HarmonyRule,
+  ExtractionOptions,
+  FilterStats,
+  GeneratorOptions,
+  PaletteMode,
+  PaletteView,
+  Region,
+  RegionShape,
+  SourceImage
+} from '@/types/color.types';
+import { ExtractionStage } from '@/types/worker.types';
+import {
+  generateComplementaryColors,
+  meanHarmonyChroma,
+  sortColorsByWeight,
+  DEFAULT_EXTRACTION_OPTIONS,
+  DEFAULT_HARMONY_OPTIONS
+} from '@/lib/color-algorithms';
+import { combineImagePalettes } from '@/lib/color-extraction';
+import { sumFilterStats } from '@/lib/extraction-filters';
+import { runExtractionBatch, isAbortError } from '@/lib/extraction-client';
+import { DEFAULT_COLOR_FORMAT } from '@/lib/color-format';
+import { randomSeed } from '@/lib/random';
+import { loadHarmonyRules, saveHarmonyRules } from '@/lib/harmony-rules';
+import { generateTonalScales } from '@/lib/tonal-scales';
+import { generateMaterialScheme } from '@/lib/material-scheme';
+import { generateBaseColors } from '@/lib/palette-generator';
 import { useLanguage } from '@/contexts/LanguageContext';
 
+let imageCounter = 0;
+
+// Wrap an uploaded file as a source image with default settings
+function createSourceImage(file: File): SourceImage {
+  imageCounter++;
+  return {
+    id: `image-${Date.now().toString(36)}-${imageCounter}`,
+    file,
+    url: URL.createObjectURL(file),
+    weight: 1,
+    regions: []
+  };
+}
+
+// Free the object URLs of images that are no longer shown
+function revokeImageUrls(images: SourceImage[]) {
+  images.forEach(image => URL.revokeObjectURL(image.url));
+}
+
+// Point harmony overrides using a rule at its new version, or drop the rule when it is deleted
+function replaceRuleOverrides(colors: Color[], id: string, rule?: HarmonyRule): Color[] {
+  return colors.map(color => {
+    const mode = color.harmony?.mode;
+    if (!mode || typeof mode === 'string' || mode.id !== id) return color;
+
+    const harmony: HarmonyOverride = { ...color.harmony, mode: rule };
+    if (!rule) delete harmony.mode;
+    return { ...color, harmony: Object.keys(harmony).length > 0 ? harmony : undefined };
+  });
+}
+
 export default function PaletaApp() {
   const { t } = useLanguage();
-  const [currentImageUrl, setCurrentImageUrl] = useState<string>();
+  const [images, setImages] = useState<SourceImage[]>([]);
+  const [activeImageIndex, setActiveImageIndex] = useState(0);
+  const [paletteMode, setPaletteMode] = useState<PaletteMode>('merged');
+  const [imagePalettes, setImagePalettes] = useState<Color[][]>([]);
   const [baseColors, setBaseColors] = useState<Color[]>([]);
   const [rings, setRings] = useState(5);
-  const [harmonyMode, setHarmonyMode] = useState<HarmonyMode>('complementary');
+  const [harmonyMode, setHarmonyMode] = useState<HarmonyMode | HarmonyRule>('complementary');
+  const [harmonyRules, setHarmonyRules] = useState<HarmonyRule[]>([]);
+  const [harmonyRulesSaved, setHarmonyRulesSaved] = useState(true);
+  const [harmonyOptions, setHarmonyOptions] = useState<HarmonyOptions>(DEFAULT_HARMONY_OPTIONS);
   const [allColors, setAllColors] = useState<Color[]>([]);
+  const [paletteView, setPaletteView] = useState<PaletteView>('harmony');
+  const scales = useMemo(() => generateTonalScales(baseColors), [baseColors]);
+  const [materialSeedIndex, setMaterialSeedIndex] = useState(0);
+  const materialSeed = baseColors[Math.min(materialSeedIndex, baseColors.length - 1)];
+  const materialScheme = useMemo(
+    () => (paletteView === 'material' && materialSeed ? generateMaterialScheme(materialSeed) : null),
+    [paletteView, materialSeed]
+  );
   const [isProcessing, setIsProcessing] = useState(false);
-  const [currentImage, setCurrentImage] = useState<HTMLImageElement | null>(null);
-  const [currentImageData, setCurrentImageData] = useState<ImageData | null>(null);
+  const [progress, setProgress] = useState<{ stage: ExtractionStage; value: number } | null>(null);
   const [selectedColorIndex, setSelectedColorIndex] = useState<number | null>(null);
+  const [sortByWeight, setSortByWeight] = useState(false);
+  const [manualColors, setManualColors] = useState<Color[]>([]);
+  const [colorFormat, setColorFormat] = useState<ColorFormat>(DEFAULT_COLOR_FORMAT);
+  const [regionTool, setRegionTool] = useState<RegionShape | null>(null);
+  const [brushActive, setBrushActive] = useState(false);
+  const [brushSize, setBrushSize] = useState(30);
+  const [filterStats, setFilterStats] = useState<FilterStats>();
+  const [colorCountAnalysis, setColorCountAnalysis] = useState<ColorCountAnalysis>();
+  const [extractionOptions, setExtractionOptions] = useState<ExtractionOptions>(() => ({
+    ...DEFAULT_EXTRACTION_OPTIONS,
+    seed: randomSeed()
+  }));
+  const [generatorOptions, setGeneratorOptions] = useState<GeneratorOptions>(() => ({ seed: randomSeed() }));
+  const [generatorActive, setGeneratorActive] = useState(false);
 
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const extractionAbortRef = useRef<AbortController | null>(null);
+  const regenerateRef = useRef<(() => void) | null>(null);
+  const applyExtractedRef = useRef<((palettes: Color[][], sourceImages: SourceImage[]) => void) | null>(null);
+  const imagesRef = useRef<SourceImage[]>([]);
+  imagesRef.current = images;
+
+  // Stop any running extraction when the app unmounts
+  useEffect(() => () => extractionAbortRef.current?.abort(), []);
+
+  // Free the object URLs of the images left when the app unmounts
+  useEffect(() => () => revokeImageUrls(imagesRef.current), []);
+
+  // Saved rules are read after mounting, since localStorage only exists in the browser
+  useEffect(() => {
+    setHarmonyRules(loadHarmonyRules());
+  }, []);
+
+  // Space regenerates a generated palette, unless a control has the focus
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || !regenerateRef.current) return;
+      if ((e.target as HTMLElement).closest('input, textarea, select, button, [contenteditable="true"]')) return;
+      e.preventDefault();
+      regenerateRef.current();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Regions and painting belong to the image being shown
+  const activeImage = images[activeImageIndex];
+  const regions = activeImage?.regions ?? [];
+
+  /**
+   * Runs extraction of every image in the worker, one image after another.
+   * Starting a new extraction cancels the one still in flight, so only the
+   * latest change updates the state.
+   */
+  const extract = async (
+    targetImages: SourceImage[] = images,
+    targetOptions: ExtractionOptions = extractionOptions
+  ) => {
+    if (targetImages.length === 0) return;
+
+    extractionAbortRef.current?.abort();
+    const controller = new AbortController();
+    extractionAbortRef.current = controller;
 
-  const handleImageLoad = async (file: File) => {
     setIsProcessing(true);
+    setProgress(null);
 
     try {
-      const url = URL.createObjectURL(file);
-      setCurrentImageUrl(url);
+      const requests = targetImages.map(image => ({
+        source: image.imageData ?? image.file,
+        options: { ...targetOptions, regions: image.regions, importance: image.importance }
+      }));
+      const results = await runExtractionBatch(requests, {
+        signal: controller.signal,
+        onProgress: (stage, value) => setProgress({ stage, value })
+      });
 
-      const img = await loadImageFromFile(file);
-      const imageData = getImageData(img);
-      const extractedColors = extractColorsKMeans(imageData, 5);
+      // Keep the decoded pixels so later runs skip decoding
+      const decoded = new Map(targetImages.map((image, idx) => [image.id, results[idx].imageData]));
+      setImages(current => current.map(image => ({ ...image, imageData: decoded.get(image.id) ?? image.imageData })));
 
-      setCurrentImage(img);
-      setCurrentImageData(imageData);
-      setBaseColors(extractedColors);
-      generatePalette(extractedColors, rings, harmonyMode);
+      const palettes = results.map(result => result.colors);
+      const analysis = results[Math.min(activeImageIndex, results.length - 1)].colorCountAnalysis;
+
+      setImagePalettes(palettes);
+      setFilterStats(sumFilterStats(results.map(result => result.filterStats)));
+      // Keep the last automatic scores while the user tries other color counts
+      setColorCountAnalysis(current => analysis ?? (targetOptions.autoColorCount ? undefined : current));
+      applyExtractedRef.current?.(palettes, targetImages);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error processing image:', error);
     } finally {
-      setIsProcessing(false);
+      if (extractionAbortRef.current === controller) {
+        extractionAbortRef.current = null;
+        setIsProcessing(false);
+        setProgress(null);
+      }
     }
   };
 
+  // Combine the extracted palettes into the base colors, without re-extracting
+  const applyPalettes = (palettes: Color[][], sourceImages: SourceImage[], mode: PaletteMode) => {
+    if (palettes.length !== sourceImages.length) return;
+
+    const colors = combineImagePalettes(palettes, sourceImages.map(image => image.weight), mode, extractionOptions);
+    // Typed colors stay after the extracted ones
+    const orderedColors = [...(sortByWeight ? sortColorsByWeight(colors) : colors), ...manualColors];
+
+    setSelectedColorIndex(null);
+    setBaseColors(orderedColors);
+    generatePalette(orderedColors, rings, harmonyMode);
+  };
+
+  // Extraction results arrive renders later and read the settings current by
+  // then from here, so colors typed and controls changed meanwhile are kept
+  applyExtractedRef.current = (palettes, sourceImages) => {
+    const current = sourceImages.map(image => images.find(other => other.id === image.id) ?? image);
+    applyPalettes(palettes, current, paletteMode);
+  };
+
+  const handleImagesLoad = (files: File[]) => {
+    const loaded = files.map(createSourceImage);
+
+    revokeImageUrls(images);
+    setImages(loaded);
+    setGeneratorActive(false);
+    setActiveImageIndex(0);
+    setImagePalettes([]);
+    setSelectedColorIndex(null);
+    setBaseColors(manualColors);
+    generatePalette(manualColors, rings, harmonyMode);
+    setFilterStats(undefined);
+    setColorCountAnalysis(undefined);
+    extract(loaded);
+  };
+
+  const handleAddImages = (files: File[]) => {
+    const updated = [...images, ...files.map(createSourceImage)];
+    setImages(updated);
+    extract(updated);
+  };
+
+  const handleRemoveImage = (index: number) => {
+    const updated = images.filter((_, idx) => idx !== index);
+    revokeImageUrls(images.slice(index, index + 1));
+    setImages(updated);
+    setActiveImageIndex(current => (index < current ? current - 1 : Math.min(current, updated.length - 1)));
+    extract(updated);
+  };
+
+  const handleImageWeightChange = (index: number, weight: number) => {
+    const updated = images.map((image, idx) => (idx === index ? { ...image, weight } : image));
+    setImages(updated);
+    applyPalettes(imagePalettes, updated, paletteMode);
+  };
+
+  const handlePaletteModeChange = (mode: PaletteMode) => {
+    setPaletteMode(mode);
+    applyPalettes(imagePalettes, images, mode);
+  };
+
+  // Regions and painting only apply to the image being shown
+  const updateActiveImage = (changes: Pick<Partial<SourceImage>, 'regions' | 'importance'>) => {
+    if (!activeImage) return;
+
+    const updated = images.map((image, idx) => (idx === activeImageIndex ? { ...image, ...changes } : image));
+    setImages(updated);
+    extract(updated);
+  };
+
+  const updateRegions = (newRegions: Region[]) => {
+    updateActiveImage({ regions: newRegions });
+  };
+
+  // Region drawing and brush painting both use the pointer on the image
+  const handleRegionToolChange = (tool: RegionShape | null) => {
+    setRegionTool(tool);
+    if (tool) setBrushActive(false);
+  };
+
+  const handleBrushActiveChange = (active: boolean) => {
+    setBrushActive(active);
+    if (active) setRegionTool(null);
+  };
+
+  const updateImportance = (importance: Uint8Array | undefined) => {
+    updateActiveImage({ importance });
+  };
+
+  const handleReextract = () => {
+    extract();
+  };
+
+  // Override the automatic color count with one picked from its scores
+  const handleColorCountSelect = (colorCount: number) => {
+    const options = { ...extractionOptions, autoColorCount: false, colorCount };
+    setExtractionOptions(options);
+    extract(images, options);
+  };
+
+  const handleSortByWeightChange = (enabled: boolean) => {
+    setSortByWeight(enabled);
+    if (!enabled || baseColors.length === 0) return;
+
+    const sortedColors = sortColorsByWeight(baseColors);
+    setSelectedColorIndex(null);
+    setBaseColors(sortedColors);
+    generatePalette(sortedColors, rings, harmonyMode);
+  };
+
+  const handleAddColor = (color: Color) => {
+    const updatedColors = [...baseColors, color];
+    setManualColors([...manualColors, color]);
+    setBaseColors(updatedColors);
+    generatePalette(updatedColors, rings, harmonyMode);
+  };
+
+  // Extracted colors come back with the next extraction; typed colors are gone for good
+  const handleRemoveColor = (index: number) => {
+    const removed = baseColors[index];
+    const updatedColors = baseColors.filter((_, idx) => idx !== index);
+    setManualColors(manualColors.filter(color => color !== removed));
+    setSelectedColorIndex(null);
+    setBaseColors(updatedColors);
+    generatePalette(updatedColors, rings, harmonyMode);
+  };
+
   const handleColorUpdate = (index: number, newColor: Color) => {
     const updatedColors = [...baseColors];
-    updatedColors[index] = newColor;
+    // Dragging moves the sample point; the slot keeps the coverage it was extracted with
+    updatedColors[index] = {
+      ...newColor,
+      weight: baseColors[index]?.weight,
+      regionId: baseColors[index]?.regionId,
+      sourceIndex: baseColors[index]?.sourceIndex,
+      harmony: baseColors[index]?.harmony,
+      locked: baseColors[index]?.locked
+    };
     setBaseColors(updatedColors);
     generatePalette(updatedColors, rings, harmonyMode);
   };
 
-  const generatePalette = (colors: Color[], numRings: number, mode: HarmonyMode) => {
+  const generatePalette = (
+    colors: Color[],
+    numRings: number,
+    mode: HarmonyMode | HarmonyRule,
+    options: HarmonyOptions = harmonyOptions
+  ) => {
     const palette: Color[] = [...colors];
+    const referenceChroma = meanHarmonyChroma(colors, options.space ?? DEFAULT_HARMONY_OPTIONS.space);
 
+    // Base colors may set their own mode and ring count, or opt out
     colors.forEach((baseColor) => {
-      const complementary = generateComplementaryColors(baseColor, numRings, mode);
+      const override = baseColor.harmony;
+      if (override?.disabled) return;
+
+      const complementary = generateComplementaryColors(
+        baseColor,
+        override?.rings ?? numRings,
+        override?.mode ?? mode,
+        options,
+        referenceChroma
+      );
       palette.push(...complementary);
     });
 
@@ -107,13 +438,103 @@ export default function PaletaApp() {
     }
   };
 
-  const handleHarmonyModeChange = (newMode: HarmonyMode) => {
+  const handleHarmonyModeChange = (newMode: HarmonyMode | HarmonyRule) => {
     setHarmonyMode(newMode);
     if (baseColors.length > 0) {
       generatePalette(baseColors, rings, newMode);
     }
   };
 
+  const updateHarmonyRules = (rules: HarmonyRule[]) => {
+    setHarmonyRules(rules);
+    setHarmonyRulesSaved(saveHarmonyRules(rules));
+  };
+
+  // Replace the base colors without reordering them; typed colors follow
+  // their replacements so their settings survive the next extraction
+  const replaceBaseColors = (updatedColors: Color[], mode: HarmonyMode | HarmonyRule = harmonyMode) => {
+    setManualColors(manualColors.map(color => updatedColors[baseColors.indexOf(color)] ?? color));
+    setBaseColors(updatedColors);
+    generatePalette(updatedColors, rings, mode);
+  };
+
+  // A saved rule replaces the one with the same id and becomes the harmony in use
+  const handleSaveRule = (rule: HarmonyRule) => {
+    const exists = harmonyRules.some(saved => saved.id === rule.id);
+    updateHarmonyRules(exists
+      ? harmonyRules.map(saved => (saved.id === rule.id ? rule : saved))
+      : [...harmonyRules, rule]);
+    setHarmonyMode(rule);
+    replaceBaseColors(replaceRuleOverrides(baseColors, rule.id, rule), rule);
+  };
+
+  const handleDeleteRule = (id: string) => {
+    updateHarmonyRules(harmonyRules.filter(rule => rule.id !== id));
+    const mode = typeof harmonyMode !== 'string' && harmonyMode.id === id ? 'complementary' : harmonyMode;
+    setHarmonyMode(mode);
+    replaceBaseColors(replaceRuleOverrides(baseColors, id), mode);
+  };
+
+  const handleHarmonyOverrideChange = (index: number, override: HarmonyOverride | undefined) => {
+    replaceBaseColors(baseColors.map((color, idx) => (idx === index ? { ...color, harmony: override } : color)));
+  };
+
+  const handleToggleLock = (index: number) => {
+    replaceBaseColors(baseColors.map((color, idx) => (idx === index ? { ...color, locked: !color.locked || undefined } : color)));
+  };
+
+  // Replace the unlocked base colors with generated ones; typed colors that
+  // were replaced are gone for good
+  const generateColors = (options: GeneratorOptions = generatorOptions) => {
+    const colors = generateBaseColors(baseColors, harmonyMode, options);
+    setGeneratorActive(true);
+    setManualColors(manualColors.filter(color => colors.includes(color)));
+    setSelectedColorIndex(null);
+    setBaseColors(colors);
+    generatePalette(colors, rings, harmonyMode);
+  };
+
+  const handleRegenerate = () => {
+    const options = { ...generatorOptions, seed: randomSeed() };
+    setGeneratorOptions(options);
+    generateColors(options);
+  };
+
+  // The space bar handler is attached once and reads the latest regeneration from here
+  regenerateRef.current = generatorActive ? handleRegenerate : null;
+
+  // Imported rules replace saved rules with the same name; the harmony in
+  // use and color overrides move to the imported versions
+  const handleImportRules = (imported: HarmonyRule[]) => {
+    const byName = new Map(imported.map(rule => [rule.name, rule]));
+    const replaced = harmonyRules.filter(rule => byName.has(rule.name));
+    updateHarmonyRules([...harmonyRules.filter(rule => !byName.has(rule.name)), ...imported]);
+    if (replaced.length === 0) return;
+
+    const active = typeof harmonyMode !== 'string' && replaced.find(rule => rule.id === harmonyMode.id);
+    const mode = active ? byName.get(active.name)! : harmonyMode;
+    setHarmonyMode(mode);
+    replaceBaseColors(
+      replaced.reduce((colors, rule) => replaceRuleOverrides(colors, rule.id, byName.get(rule.name)), baseColors),
+      mode
+    );
+  };
+
+  const handleHarmonyOptionsChange = (newOptions: HarmonyOptions) => {
+    setHarmonyOptions(newOptions);
+    if (baseColors.length > 0) {
+      generatePalette(baseColors, rings, harmonyMode, newOptions);
+    }
+  };
+
+  const paletteViews: { value: PaletteView; label: string }[] = [
+    { value: 'harmony', label: t.scales.harmony },
+    { value: 'scales', label: t.scales.scales },
+    { value: 'material', label: t.scales.material },
+    { value: 'contrast', label: t.scales.contrast },
+    { value: 'gradient', label: t.scales.gradient }
+  ];
+
   return (
     <div className="min-h-screen bg-background dark:bg-background transition-colors">
       <div className="max-w-7xl mx-auto p-6">
@@ -132,30 +553,70 @@ export default function PaletaApp() {
           <div className="lg:col-span-3 space-y-6">
             <div>
               <button
-                onClick={() => document.querySelector<HTMLInputElement>('input[type="file"]')?.click()}
+                onClick={() => fileInputRef.current?.click()}
                 className="w-full px-6 py-3 bg-black dark:bg-white text-white dark:text-black rounded-lg font-medium hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors"
               >
                 {t.upload.button}
               </button>
             </div>
 
+            <GeneratorPanel
+              options={generatorOptions}
+              onOptionsChange={setGeneratorOptions}
+              onGenerate={() => generateColors()}
+            />
+
+            {baseColors.length > 0 && (
+              <ColorFormatSelector format={colorFormat} onFormatChange={setColorFormat} />
+            )}
+
             <ColorList
               colors={baseColors}
               title={t.colors.extracted}
               selectedIndex={selectedColorIndex}
               onSelectColor={setSelectedColorIndex}
+              sortByWeight={sortByWeight}
+              onSortByWeightChange={handleSortByWeightChange}
+              regions={regions}
+              format={colorFormat}
+              onAddColor={handleAddColor}
+              onRemoveColor={handleRemoveColor}
+              harmonyRules={harmonyRules}
+              onHarmonyOverrideChange={handleHarmonyOverrideChange}
+              onToggleLock={handleToggleLock}
             />
 
             {baseColors.length > 0 && (
               <>
+                <ExtractionPanel
+                  options={extractionOptions}
+                  onOptionsChange={setExtractionOptions}
+                  onExtract={handleReextract}
+                  disabled={isProcessing || images.length === 0}
+                  filterStats={filterStats}
+                  colorCountAnalysis={colorCountAnalysis}
+                  onColorCountSelect={handleColorCountSelect}
+                />
+
                 <RingSelector
                   rings={rings}
                   onRingsChange={handleRingsChange}
                   harmonyMode={harmonyMode}
                   onHarmonyModeChange={handleHarmonyModeChange}
+                  rules={harmonyRules}
+                  harmonyOptions={harmonyOptions}
+                  onHarmonyOptionsChange={handleHarmonyOptionsChange}
                 />
 
-                <ExportMenu colors={allColors} disabled={isProcessing} />
+                <HarmonyRuleEditor
+                  rules={harmonyRules}
+                  onSave={handleSaveRule}
+                  onDelete={handleDeleteRule}
+                  onImport={handleImportRules}
+                  saveFailed={!harmonyRulesSaved}
+                />
+
+                <ExportMenu colors={allColors} scales={scales} disabled={isProcessing} />
               </>
             )}
           </div>
@@ -164,13 +625,32 @@ export default function PaletaApp() {
             <ImageUploader
               ref={containerRef}
               imageRef={imageRef}
-              onImageLoad={handleImageLoad}
-              currentImage={currentImageUrl}
+              fileInputRef={fileInputRef}
+              onImagesLoad={handleImagesLoad}
+              currentImage={activeImage?.url}
             >
+              <RegionOverlay
+                imageElement={imageRef.current}
+                regions={regions}
+                tool={regionTool}
+                onRegionComplete={(region) => updateRegions([...regions, region])}
+              />
+              <ImportanceBrushOverlay
+                imageElement={imageRef.current}
+                importance={extractionOptions.weighting === 'brush' ? activeImage?.importance : undefined}
+                active={brushActive && extractionOptions.weighting === 'brush'}
+                brushSize={brushSize}
+                onPaint={updateImportance}
+              />
               <ColorIndicators
-                colors={baseColors}
+                colors={baseColors.map(color =>
+                  // Only colors from the image being shown have a position on it
+                  color.sourceIndex !== undefined && color.sourceIndex !== activeImageIndex
+                    ? { ...color, position: undefined }
+                    : color
+                )}
                 imageElement={imageRef.current}
-                imageData={currentImageData}
+                imageData={activeImage?.imageData ?? null}
                 onColorUpdate={handleColorUpdate}
                 onSelectColor={setSelectedColorIndex}
                 selectedColorIndex={selectedColorIndex}
@@ -178,10 +658,56 @@ export default function PaletaApp() {
               />
             </ImageUploader>
 
+            {images.length > 0 && (
+              <ImageStrip
+                images={images}
+                activeIndex={activeImageIndex}
+                onSelect={setActiveImageIndex}
+                onAdd={handleAddImages}
+                onRemove={handleRemoveImage}
+                onWeightChange={handleImageWeightChange}
+                mode={paletteMode}
+                onModeChange={handlePaletteModeChange}
+              />
+            )}
+
+            {activeImage && (
+              <RegionToolbar
+                tool={regionTool}
+                onToolChange={handleRegionToolChange}
+                regions={regions}
+                onRemoveRegion={(id) => updateRegions(regions.filter(region => region.id !== id))}
+                onClearRegions={() => updateRegions([])}
+              />
+            )}
+
+            {activeImage && extractionOptions.weighting === 'brush' && (
+              <ImportanceBrushToolbar
+                active={brushActive}
+                onActiveChange={handleBrushActiveChange}
+                brushSize={brushSize}
+                onBrushSizeChange={setBrushSize}
+                hasPainting={Boolean(activeImage.importance)}
+                onClear={() => updateImportance(undefined)}
+              />
+            )}
+
             {isProcessing && (
               <div className="text-center p-6">
                 <div className="inline-block w-8 h-8 border-2 border-black dark:border-white border-t-transparent rounded-full animate-spin mb-2" />
-                <p className="text-sm text-muted dark:text-muted">{t.upload.processing}</p>
+                <p className="text-sm text-muted dark:text-muted">
+                  {progress?.stage === 'extracting'
+                    ? `${t.upload.processingHint}... ${Math.round(progress.value * 100)}%`
+                    : t.upload.processing}
+                </p>
+                {progress?.stage === 'extracting' && (
+                  <div className="mt-2 mx-auto w-48 h-1 bg-accent dark:bg-accent rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-black dark:bg-white transition-all"
+                      style={{ width: `${Math.round(progress.value * 100)}%` }}
+                    />
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -189,7 +715,43 @@ export default function PaletaApp() {
           <div className="lg:col-span-3">
             <div className="sticky top-6">
               <h2 className="text-lg font-semibold mb-4">{t.colors.generated}</h2>
-              <PaletteGrid colors={allColors} />
+
+              {baseColors.length > 0 && (
+                <div className="grid grid-cols-2 gap-2 mb-4" role="group" aria-label={t.scales.view}>
+                  {paletteViews.map((item) => (
+                    <button
+                      key={item.value}
+                      onClick={() => setPaletteView(item.value)}
+                      aria-pressed={paletteView === item.value}
+                      className={`
+                        px-3 py-2 text-sm rounded border transition-all
+                        ${
+                          paletteView === item.value
+                            ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                            : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+                        }
+                      `}
+                    >
+                      {item.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {paletteView === 'material' ? (
+                <MaterialSchemePanel
+                  seeds={baseColors}
+                  seedIndex={Math.min(materialSeedIndex, baseColors.length - 1)}
+                  onSeedChange={setMaterialSeedIndex}
+                  scheme={materialScheme}
+                />
+              ) : paletteView === 'contrast' ? (
+                <ContrastRampPanel bases={baseColors} format={colorFormat} />
+              ) : paletteView === 'gradient' ? (
+                <GradientBuilder colors={allColors} format={colorFormat} />
+              ) : (
+                <PaletteGrid colors={allColors} format={colorFormat} view={paletteView} scales={scales} />
+              )}
 
               {allColors.length > 0 && (
                 <div className="mt-4 p-4 bg-accent dark:bg-accent rounded-lg text-sm text-muted dark:text-muted">
@@ -6,37 +6,62 @@
  * December 2025
  *
  * Displays the complete generated color palette as a grid of color swatches.
- * Shows all colors including base colors and generated complementary colors.
+ * Shows all colors including base colors and generated complementary colors,
+ * or the 50-950 tonal scale of each base color as a row.
  *
  * Features:
  * - 5-column grid layout for compact viewing
- * - Click any swatch to copy HEX code to clipboard
- * - Hover overlay showing HEX code
+ * - Scales view: one 11-step row per base color, its own step marked
+ * - Click any swatch to copy its value, in the selected format, to clipboard
+ * - Hover overlay showing the value in the selected format
  * - Visual feedback when copied (checkmark)
  * - Scale animation on hover
+ * - Wide-gamut colors are painted in Display P3 where the browser supports
+ *   it and marked with a "P3" badge (they are outside sRGB)
  * - Empty state message when no colors available
  *
  * @component PaletteGrid
  * @param {Color[]} colors - Array of all colors in the palette (base + generated)
+ * @param {ColorFormat} format - Color format used to show and copy values (optional, HEX by default)
+ * @param {PaletteView} view - Whether to show the harmony palette or the tonal scales (optional, harmony by default)
+ * @param {TonalScale[]} scales - Tonal scale of each base color, shown in the scales view (optional)
  */
 
 'use client';
 
-import { Color } from '@/types/color.types';
+import { Color, ColorFormat, PaletteView } from '@/types/color.types';
+import { formatColor, formatDisplayP3, DEFAULT_COLOR_FORMAT } from '@/lib/color-format';
+import { SCALE_STEPS, TonalScale } from '@/lib/tonal-scales';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { useState } from 'react';
 
 interface PaletteGridProps {
   colors: Color[];
+  format?: ColorFormat;
+  view?: PaletteView;
+  scales?: TonalScale[];
 }
 
-export default function PaletteGrid({ colors }: PaletteGridProps) {
-  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+// Whether the browser can paint Display P3 colors
+function supportsDisplayP3(): boolean {
+  return typeof CSS !== 'undefined' && CSS.supports('color', 'color(display-p3 1 1 1)');
+}
+
+export default function PaletteGrid({
+  colors,
+  format = DEFAULT_COLOR_FORMAT,
+  view = 'harmony',
+  scales = []
+}: PaletteGridProps) {
+  const { t } = useLanguage();
+  const wideGamut = supportsDisplayP3();
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
 
-  const copyToClipboard = async (hex: string, index: number) => {
+  const copyToClipboard = async (value: string, key: string) => {
     try {
-      await navigator.clipboard.writeText(hex);
-      setCopiedIndex(index);
-      setTimeout(() => setCopiedIndex(null), 1500);
+      await navigator.clipboard.writeText(value);
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey(null), 1500);
     } catch (err) {
       console.error('Failed to copy:', err);
     }
@@ -50,21 +75,72 @@ export default function PaletteGrid({ colors }: PaletteGridProps) {
     );
   }
 
+  if (view === 'scales') {
+    return (
+      <div className="space-y-2">
+        <div className="grid grid-cols-11 gap-1 text-[8px] font-mono text-center text-muted dark:text-muted">
+          {SCALE_STEPS.map(step => (
+            <span key={step}>{step}</span>
+          ))}
+        </div>
+        {scales.map((scale, row) => (
+          <div key={row} className="grid grid-cols-11 gap-1">
+            {scale.steps.map(({ step, color }) => {
+              const key = `${row}-${step}`;
+              const value = formatColor(color, format);
+
+              return (
+                <button
+                  key={key}
+                  onClick={() => copyToClipboard(value, key)}
+                  title={`${step}: ${value}`}
+                  aria-label={`${step}: ${value}${step === scale.baseStep ? ` (${t.scales.base})` : ''}`}
+                  className="relative aspect-square rounded border border-border hover:scale-110 transition-transform flex items-center justify-center"
+                  style={{ backgroundColor: color.hex }}
+                >
+                  {(copiedKey === key || step === scale.baseStep) && (
+                    <span
+                      className={`text-[9px] font-bold ${color.l > 50 ? 'text-black' : 'text-white'}`}
+                      aria-hidden="true"
+                    >
+                      {copiedKey === key ? '✓' : '●'}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
   return (
     <div className="grid grid-cols-5 gap-3">
       {colors.map((color, index) => (
         <div
           key={index}
           className="group relative aspect-square rounded-lg overflow-hidden border border-border cursor-pointer hover:scale-105 transition-transform"
-          style={{ backgroundColor: color.hex }}
-          onClick={() => copyToClipboard(color.hex, index)}
+          style={{
+            backgroundColor: (wideGamut && formatDisplayP3({ ...color, alpha: undefined })) || color.hex
+          }}
+          onClick={() => copyToClipboard(formatColor(color, format), String(index))}
         >
+          {color.displayP3 && (
+            <span
+              className="absolute top-1 left-1 px-1 text-[9px] font-mono font-bold rounded bg-black/70 text-white"
+              title={t.colors.outOfGamut}
+              aria-label={t.colors.outOfGamut}
+            >
+              P3
+            </span>
+          )}
           <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all flex items-center justify-center">
-            <div className="opacity-0 group-hover:opacity-100 transition-opacity text-white text-xs font-medium text-center p-2">
-              {copiedIndex === index ? (
+            <div className={`opacity-0 group-hover:opacity-100 transition-opacity text-white font-medium text-center p-1 break-words min-w-0 ${format === 'hex' ? 'text-xs' : 'text-[9px] leading-tight'}`}>
+              {copiedKey === String(index) ? (
                 <span>✓ Copied</span>
               ) : (
-                <span className="font-mono">{color.hex}</span>
+                <span className="font-mono">{formatColor(color, format)}</span>
               )}
             </div>
           </div>
@@ -0,0 +1,214 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * RegionOverlay Component
+ * December 2025
+ *
+ * SVG layer on top of the uploaded image for drawing regions of interest.
+ * Colors are then extracted only from the pixels inside each region.
+ *
+ * Features:
+ * - Rectangle and ellipse regions (drag from corner to corner)
+ * - Freehand lasso regions (drag along the outline)
+ * - Numbered outlines for every region
+ * - Live preview of the region being drawn
+ *
+ * Technical details:
+ * - The SVG covers exactly the displayed image and uses the image's
+ *   natural size as viewBox, so shapes are stored in image coordinates
+ * - Pointer capture keeps the stroke alive when leaving the image
+ * - Only intercepts pointer events while a drawing tool is active, and
+ *   stays below the color indicators so they remain draggable
+ *
+ * @component RegionOverlay
+ * @param {HTMLImageElement | null} imageElement - Reference to the uploaded image
+ * @param {Region[]} regions - Regions drawn so far
+ * @param {RegionShape | null} tool - Active drawing tool (null when not drawing)
+ * @param {Function} onRegionComplete - Callback with the region once drawing ends
+ */
+
+'use client';
+
+import { Region, RegionShape } from '@/types/color.types';
+import { createRegion, getRegionBounds, isValidRegion } from '@/lib/region-mask';
+import { useState, useEffect, useRef } from 'react';
+
+// Minimum distance in image pixels between consecutive lasso points
+const LASSO_MIN_STEP = 3;
+
+interface RegionOverlayProps {
+  imageElement: HTMLImageElement | null;
+  regions: Region[];
+  tool: RegionShape | null;
+  onRegionComplete: (region: Region) => void;
+}
+
+interface ImageFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+export default function RegionOverlay({ imageElement, regions, tool, onRegionComplete }: RegionOverlayProps) {
+  const [frame, setFrame] = useState<ImageFrame | null>(null);
+  const [draft, setDraft] = useState<Region | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Track where the image is displayed inside the container
+  useEffect(() => {
+    if (!imageElement) {
+      setFrame(null);
+      return;
+    }
+
+    const updateFrame = () => {
+      if (!imageElement.naturalWidth) return;
+      setFrame({
+        left: imageElement.offsetLeft,
+        top: imageElement.offsetTop,
+        width: imageElement.offsetWidth,
+        height: imageElement.offsetHeight,
+        naturalWidth: imageElement.naturalWidth,
+        naturalHeight: imageElement.naturalHeight
+      });
+    };
+
+    updateFrame();
+    imageElement.addEventListener('load', updateFrame);
+    window.addEventListener('resize', updateFrame);
+
+    return () => {
+      imageElement.removeEventListener('load', updateFrame);
+      window.removeEventListener('resize', updateFrame);
+    };
+  }, [imageElement]);
+
+  // Convert a pointer position to image coordinates
+  const toImageCoords = (e: React.PointerEvent): { x: number; y: number } => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * frame!.naturalWidth;
+    const y = ((e.clientY - rect.top) / rect.height) * frame!.naturalHeight;
+
+    return {
+      x: Math.max(0, Math.min(frame!.naturalWidth, Math.round(x))),
+      y: Math.max(0, Math.min(frame!.naturalHeight, Math.round(y)))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!tool || !frame) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const point = toImageCoords(e);
+    setDraft(createRegion(tool, [point, point]));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+
+    const point = toImageCoords(e);
+
+    if (draft.shape === 'lasso') {
+      const last = draft.points[draft.points.length - 1];
+      if (Math.hypot(point.x - last.x, point.y - last.y) < LASSO_MIN_STEP) return;
+      setDraft({ ...draft, points: [...draft.points, point] });
+    } else {
+      setDraft({ ...draft, points: [draft.points[0], point] });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (isValidRegion(draft)) {
+      onRegionComplete(draft);
+    }
+    setDraft(null);
+  };
+
+  if (!imageElement || !frame) return null;
+
+  // Keep strokes and labels the same on-screen size whatever the image size
+  const scale = frame.naturalWidth / frame.width;
+
+  const renderShape = (region: Region, isDraft: boolean) => {
+    const bounds = getRegionBounds(region);
+    const shapeProps = {
+      fill: isDraft ? 'rgba(255, 255, 255, 0.15)' : 'rgba(255, 255, 255, 0.08)',
+      stroke: 'white',
+      strokeWidth: 2,
+      strokeDasharray: isDraft ? '6 4' : undefined,
+      vectorEffect: 'non-scaling-stroke' as const,
+      style: { filter: 'drop-shadow(0 0 1px rgba(0, 0, 0, 0.8))' }
+    };
+
+    switch (region.shape) {
+      case 'rectangle':
+        return <rect x={bounds.x} y={bounds.y} width={bounds.width} height={bounds.height} {...shapeProps} />;
+      case 'ellipse':
+        return (
+          <ellipse
+            cx={bounds.x + bounds.width / 2}
+            cy={bounds.y + bounds.height / 2}
+            rx={bounds.width / 2}
+            ry={bounds.height / 2}
+            {...shapeProps}
+          />
+        );
+      case 'lasso':
+        return <polygon points={region.points.map(p => `${p.x},${p.y}`).join(' ')} {...shapeProps} />;
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute select-none"
+      style={{
+        left: `${frame.left}px`,
+        top: `${frame.top}px`,
+        width: `${frame.width}px`,
+        height: `${frame.height}px`,
+        zIndex: 30,
+        pointerEvents: tool ? 'auto' : 'none',
+        cursor: tool ? 'crosshair' : undefined,
+        touchAction: 'none'
+      }}
+      viewBox={`0 0 ${frame.naturalWidth} ${frame.naturalHeight}`}
+      preserveAspectRatio="none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {regions.map((region, index) => {
+        const bounds = getRegionBounds(region);
+        return (
+          <g key={region.id}>
+            {renderShape(region, false)}
+            <text
+              x={bounds.x + 6 * scale}
+              y={bounds.y + 16 * scale}
+              fontSize={12 * scale}
+              fontFamily="monospace"
+              fontWeight="bold"
+              fill="white"
+              style={{ filter: 'drop-shadow(0 0 1px rgba(0, 0, 0, 0.9))' }}
+            >
+              {index + 1}
+            </text>
+          </g>
+        );
+      })}
+      {draft && renderShape(draft, true)}
+    </svg>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * RegionToolbar Component
+ * December 2025
+ *
+ * Tools for drawing regions of interest on the uploaded image.
+ * Allows users to:
+ * - Pick a drawing tool (rectangle, ellipse, freehand lasso)
+ * - Remove individual regions or clear them all
+ *
+ * Each region produces its own set of base colors. Without regions the
+ * whole image is used.
+ *
+ * @component RegionToolbar
+ * @param {RegionShape | null} tool - Active drawing tool (null when not drawing)
+ * @param {Function} onToolChange - Callback when a tool is picked or released
+ * @param {Region[]} regions - Regions drawn so far
+ * @param {Function} onRemoveRegion - Callback to remove a region by id
+ * @param {Function} onClearRegions - Callback to remove every region
+ */
+
+'use client';
+
+import { Region, RegionShape } from '@/types/color.types';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface RegionToolbarProps {
+  tool: RegionShape | null;
+  onToolChange: (tool: RegionShape | null) => void;
+  regions: Region[];
+  onRemoveRegion: (id: string) => void;
+  onClearRegions: () => void;
+}
+
+export default function RegionToolbar({
+  tool,
+  onToolChange,
+  regions,
+  onRemoveRegion,
+  onClearRegions
+}: RegionToolbarProps) {
+  const { t } = useLanguage();
+
+  const tools: { value: RegionShape; label: string; icon: string }[] = [
+    { value: 'rectangle', label: t.regions.rectangle, icon: '▭' },
+    { value: 'ellipse', label: t.regions.ellipse, icon: '◯' },
+    { value: 'lasso', label: t.regions.lasso, icon: '〰' }
+  ];
+
+  return (
+    <div className="space-y-3 p-4 bg-white dark:bg-background border border-border dark:border-border rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">{t.regions.title}</h3>
+        {regions.length > 0 && (
+          <button
+            onClick={onClearRegions}
+            className="text-xs text-muted dark:text-muted hover:text-foreground dark:hover:text-foreground transition-colors"
+          >
+            {t.regions.clear}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {tools.map((item) => (
+          <button
+            key={item.value}
+            onClick={() => onToolChange(tool === item.value ? null : item.value)}
+            aria-pressed={tool === item.value}
+            className={`
+              px-3 py-2 text-sm rounded border transition-all
+              ${
+                tool === item.value
+                  ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                  : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+              }
+            `}
+          >
+            <span className="mr-1 opacity-60">{item.icon}</span>
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted dark:text-muted">{t.regions.hint}</p>
+
+      {regions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {regions.map((region, index) => (
+            <span
+              key={region.id}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded border border-border dark:border-border"
+            >
+              {t.regions.region} {index + 1}
+              <button
+                onClick={() => onRemoveRegion(region.id)}
+                className="ml-1 text-muted dark:text-muted hover:text-foreground dark:hover:text-foreground"
+                aria-label={`${t.regions.remove} ${index + 1}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,49 +8,94 @@
  * Control panel for configuring color palette generation parameters.
  * Allows users to:
  * - Adjust the number of color rings (3-12)
- * - Select color harmony mode
+ * - Select color harmony mode, built in or a saved custom rule
+ * - Choose the color space harmonies are generated in (OKLCH or legacy HSL)
+ * - Scale saturation/chroma globally, fade it out ring by ring along a
+ *   curve, or normalize it across all base colors (palettes update live)
  *
  * Color rings: Each base color generates N complementary colors
  * Harmony modes: Different color theory rules for generating palettes
  * - Complementary: Opposite on color wheel
  * - Analogous: Adjacent colors on color wheel
  * - Triadic: Three evenly spaced colors
- * - Tetradic: Four colors forming a rectangle
+ * - Square: Four evenly spaced colors
+ * - Rectangle: Two complementary pairs
  * - Split-complementary: Base + two adjacent to complement
+ * - Double split-complementary: Colors adjacent to the base and to its complement
+ * - Compound: An adjacent color plus the complement and one next to it
+ * - Monochromatic: One hue at several lightness and saturation levels
+ * - Shades: One hue, darker at every step
  *
  * @component RingSelector
  * @param {number} rings - Current number of color rings (3-12)
  * @param {Function} onRingsChange - Callback when rings value changes
- * @param {HarmonyMode} harmonyMode - Current harmony mode
+ * @param {HarmonyMode | HarmonyRule} harmonyMode - Current harmony mode or custom rule
  * @param {Function} onHarmonyModeChange - Callback when harmony mode changes
+ * @param {HarmonyRule[]} rules - Saved custom harmony rules (optional)
+ * @param {HarmonyOptions} harmonyOptions - Current harmony generation options
+ * @param {Function} onHarmonyOptionsChange - Callback when a harmony option changes
  */
 
 'use client';
 
-import { HarmonyMode } from '@/types/color.types';
+import { FalloffCurve, HarmonyMode, HarmonyOptions, HarmonyRule, HarmonySpace } from '@/types/color.types';
+import { canonicalHarmonyMode, DEFAULT_HARMONY_OPTIONS } from '@/lib/color-algorithms';
 import { useLanguage } from '@/contexts/LanguageContext';
 
 interface RingSelectorProps {
   rings: number;
   onRingsChange: (rings: number) => void;
-  harmonyMode: HarmonyMode;
-  onHarmonyModeChange: (mode: HarmonyMode) => void;
+  harmonyMode: HarmonyMode | HarmonyRule;
+  onHarmonyModeChange: (mode: HarmonyMode | HarmonyRule) => void;
+  rules?: HarmonyRule[];
+  harmonyOptions: HarmonyOptions;
+  onHarmonyOptionsChange: (options: HarmonyOptions) => void;
 }
 
 export default function RingSelector({
   rings,
   onRingsChange,
   harmonyMode,
-  onHarmonyModeChange
+  onHarmonyModeChange,
+  rules = [],
+  harmonyOptions,
+  onHarmonyOptionsChange
 }: RingSelectorProps) {
   const { t } = useLanguage();
+  const { space: harmonySpace, saturation, falloff, falloffCurve, normalizeChroma } = {
+    ...DEFAULT_HARMONY_OPTIONS,
+    ...harmonyOptions
+  };
 
-  const harmonyModes: { value: HarmonyMode; label: string }[] = [
+  const harmonyModes: { value: HarmonyMode | HarmonyRule; label: string }[] = [
     { value: 'complementary', label: t.harmony.complementary },
     { value: 'analogous', label: t.harmony.analogous },
     { value: 'triadic', label: t.harmony.triadic },
-    { value: 'tetradic', label: t.harmony.tetradic },
-    { value: 'split-complementary', label: t.harmony.splitComplementary }
+    { value: 'square', label: t.harmony.square },
+    { value: 'rectangle', label: t.harmony.rectangle },
+    { value: 'split-complementary', label: t.harmony.splitComplementary },
+    { value: 'double-split-complementary', label: t.harmony.doubleSplitComplementary },
+    { value: 'compound', label: t.harmony.compound },
+    { value: 'monochromatic', label: t.harmony.monochromatic },
+    { value: 'shades', label: t.harmony.shades },
+    ...rules.map(rule => ({ value: rule, label: rule.name }))
+  ];
+
+  // Built-in modes are compared by name, custom rules by id
+  const isSelected = (value: HarmonyMode | HarmonyRule) => {
+    if (typeof harmonyMode === 'string') return value === canonicalHarmonyMode(harmonyMode);
+    return typeof value !== 'string' && value.id === harmonyMode.id;
+  };
+
+  const harmonySpaces: { value: HarmonySpace; label: string }[] = [
+    { value: 'oklch', label: t.harmonySpace.oklch },
+    { value: 'hsl', label: t.harmonySpace.hsl }
+  ];
+
+  const falloffCurves: { value: FalloffCurve; label: string }[] = [
+    { value: 'linear', label: t.saturation.curves.linear },
+    { value: 'ease-in', label: t.saturation.curves.easeIn },
+    { value: 'ease-out', label: t.saturation.curves.easeOut }
   ];
 
   return (
@@ -80,12 +125,12 @@ export default function RingSelector({
         <div className="grid grid-cols-1 gap-2">
           {harmonyModes.map((mode) => (
             <button
-              key={mode.value}
+              key={typeof mode.value === 'string' ? mode.value : mode.value.id}
               onClick={() => onHarmonyModeChange(mode.value)}
               className={`
-                px-3 py-2 text-sm rounded border transition-all text-left
+                px-3 py-2 text-sm rounded border transition-all text-left truncate
                 ${
-                  harmonyMode === mode.value
+                  isSelected(mode.value)
                     ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
                     : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
                 }
@@ -96,6 +141,100 @@ export default function RingSelector({
           ))}
         </div>
       </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">
+          {t.rings.space}
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {harmonySpaces.map((space) => (
+            <button
+              key={space.value}
+              onClick={() => onHarmonyOptionsChange({ ...harmonyOptions, space: space.value })}
+              aria-pressed={harmonySpace === space.value}
+              className={`
+                px-3 py-2 text-sm rounded border transition-all
+                ${
+                  harmonySpace === space.value
+                    ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                    : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+                }
+              `}
+            >
+              {space.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className="block text-sm font-medium">
+          {t.saturation.title}
+        </label>
+
+        <div>
+          <label htmlFor="harmony-saturation" className="block text-xs text-muted dark:text-muted mb-1">
+            {harmonySpace === 'hsl' ? t.saturation.multiplier : t.saturation.chromaMultiplier}: ×{saturation.toFixed(2)}
+          </label>
+          <input
+            id="harmony-saturation"
+            type="range"
+            min="0"
+            max="2"
+            step="0.05"
+            value={saturation}
+            onChange={(e) => onHarmonyOptionsChange({ ...harmonyOptions, saturation: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="harmony-falloff" className="block text-xs text-muted dark:text-muted mb-1">
+            {t.saturation.falloff}: {Math.round(falloff * 100)}%
+          </label>
+          <input
+            id="harmony-falloff"
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={falloff}
+            onChange={(e) => onHarmonyOptionsChange({ ...harmonyOptions, falloff: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-accent dark:bg-accent rounded-lg appearance-none cursor-pointer accent-black dark:accent-white"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2" role="group" aria-label={t.saturation.curve}>
+          {falloffCurves.map((curve) => (
+            <button
+              key={curve.value}
+              onClick={() => onHarmonyOptionsChange({ ...harmonyOptions, falloffCurve: curve.value })}
+              aria-pressed={falloffCurve === curve.value}
+              disabled={falloff === 0}
+              className={`
+                px-2 py-1 text-xs rounded border transition-all disabled:opacity-50 disabled:cursor-not-allowed
+                ${
+                  falloffCurve === curve.value
+                    ? 'bg-black dark:bg-white text-white dark:text-black border-black dark:border-white'
+                    : 'bg-white dark:bg-background text-foreground dark:text-foreground border-border dark:border-border hover:border-black dark:hover:border-white'
+                }
+              `}
+            >
+              {curve.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={normalizeChroma}
+            onChange={(e) => onHarmonyOptionsChange({ ...harmonyOptions, normalizeChroma: e.target.checked })}
+            className="accent-black dark:accent-white"
+          />
+          {t.saturation.normalize}
+        </label>
+      </div>
     </div>
   );
 }
@@ -9,11 +9,79 @@
  * These utilities handle:
  * - Loading images from File objects
  * - Extracting ImageData from images for pixel-level access
+ * - Decoding image files off the main thread (createImageBitmap + OffscreenCanvas)
  * - Reading individual pixel colors from ImageData
  *
+ * Images are read as Display P3 when the browser supports wide-gamut
+ * canvases and the image has colors outside sRGB, so vivid colors from
+ * wide-gamut photos are not clipped. Other images are read as sRGB, which
+ * keeps their exact 8-bit values. ImageData.colorSpace tells which one.
+ *
  * Used by the color extraction algorithms to analyze uploaded images.
  */
 
+import { srgbToLinear } from '@/lib/color-spaces';
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Linear Display P3 to linear sRGB
+const DISPLAY_P3_TO_SRGB = [
+  [1.2249401, -0.2249404, 0],
+  [-0.0420569, 1.0420571, 0],
+  [-0.0196376, -0.0786361, 1.0982735],
+];
+
+// How far outside 0-1 a linear sRGB channel may be before the pixel counts
+// as wide-gamut (sRGB colors stored as 8-bit Display P3 land slightly outside)
+const WIDE_GAMUT_MARGIN = 0.01;
+
+// Whether any visible Display P3 pixel falls outside the sRGB gamut
+function hasWideGamutPixels(imageData: ImageData): boolean {
+  const { data } = imageData;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+
+    // Display P3 uses the sRGB transfer function
+    const linear = [srgbToLinear(data[i]), srgbToLinear(data[i + 1]), srgbToLinear(data[i + 2])];
+    for (const row of DISPLAY_P3_TO_SRGB) {
+      const channel = row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2];
+      if (channel < -WIDE_GAMUT_MARGIN || channel > 1 + WIDE_GAMUT_MARGIN) return true;
+    }
+  }
+
+  return false;
+}
+
+// Draw an image on fresh canvases and read its pixels: as Display P3 when
+// the browser supports it and the image needs it, as sRGB otherwise
+function readPixels(
+  createContext: (settings: CanvasRenderingContext2DSettings) => Context2D | null,
+  image: CanvasImageSource,
+  width: number,
+  height: number
+): ImageData {
+  const wide = createContext({ colorSpace: 'display-p3' });
+  if (wide) {
+    wide.drawImage(image, 0, 0);
+    const imageData = wide.getImageData(0, 0, width, height);
+
+    // Browsers without wide-gamut canvases ignore the setting and give sRGB
+    if (imageData.colorSpace !== 'display-p3' || hasWideGamutPixels(imageData)) {
+      return imageData;
+    }
+  }
+
+  const ctx = createContext({ colorSpace: 'srgb' });
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  ctx.drawImage(image, 0, 0);
+
+  return ctx.getImageData(0, 0, width, height);
+}
+
 /**
  * Loads an image file and converts it to an HTMLImageElement.
  *
@@ -54,35 +122,63 @@ export function loadImageFromFile(file: File): Promise<HTMLImageElement> {
  * Extracts ImageData from an HTMLImageElement for pixel-level access.
  *
  * Creates an off-screen canvas, draws the image to it, and retrieves
- * the raw pixel data. Fills with white background first to handle
- * transparent PNGs properly.
+ * the raw pixel data, in Display P3 for wide-gamut images. Transparency
+ * is preserved; the extraction's alpha mode decides how translucent
+ * pixels are handled.
  *
  * @param {HTMLImageElement} img - The image to extract data from
  * @returns {ImageData} Raw pixel data of the image
  * @throws {Error} If canvas context cannot be obtained
  */
 export function getImageData(img: HTMLImageElement): ImageData {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) {
-    throw new Error('Could not get canvas context');
-  }
-
-  canvas.width = img.width;
-  canvas.height = img.height;
+  return readPixels((settings) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    return canvas.getContext('2d', settings);
+  }, img, img.width, img.height);
+}
 
-  // Fill with white background for transparent PNGs
-  ctx.fillStyle = '#FFFFFF';
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
+/**
+ * Decodes an image file straight into ImageData without touching the DOM.
+ *
+ * Uses createImageBitmap and OffscreenCanvas, so it also works inside a
+ * Web Worker. Transparency and wide-gamut colors are preserved, the same
+ * way as getImageData.
+ *
+ * @param {Blob} source - The image file to decode
+ * @returns {Promise<ImageData>} Raw pixel data of the image
+ * @throws {Error} If the image cannot be decoded or the context cannot be obtained
+ */
+export async function decodeImageData(source: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(source);
 
-  ctx.drawImage(img, 0, 0);
+  try {
+    return readPixels(
+      (settings) => new OffscreenCanvas(bitmap.width, bitmap.height).getContext('2d', settings),
+      bitmap,
+      bitmap.width,
+      bitmap.height
+    );
+  } finally {
+    bitmap.close();
+  }
+}
 
-  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+/**
+ * Whether images can be decoded off the main thread in this browser.
+ *
+ * @returns {boolean} True when Worker, createImageBitmap and OffscreenCanvas are available
+ */
+export function supportsOffscreenDecoding(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof createImageBitmap !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined';
 }
 
 /**
  * Retrieves the RGB color of a specific pixel in ImageData.
+ * Values are in the ImageData's color space (sRGB or Display P3).
  *
  * @param {ImageData} imageData - The image data to read from
  * @param {number} x - X coordinate of the pixel
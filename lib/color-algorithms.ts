@@ -7,114 +7,65 @@
  *
  * Core color processing algorithms for the palette generator. This module contains:
  *
- * Color Space Conversions:
- * - RGB ↔ HSL conversions for color manipulation
- * - RGB to HEX for display and export
- *
  * Color Extraction:
  * - K-means clustering algorithm for extracting dominant colors from images
+ * - Clustering in a perceptual space (OKLab or CIELAB/ΔE2000) or plain sRGB
+ * - Coverage weight per extracted color and dominance ordering
  * - Optimized for speed and accuracy with ImageData
  *
  * Color Generation:
  * - Complementary color generation based on color theory
- * - Multiple harmony modes (complementary, analogous, triadic, tetradic, split-complementary)
+ * - Multiple harmony modes (complementary, analogous, triadic, square, rectangle,
+ *   split and double split complementary, compound, monochromatic, shades)
+ * - Custom harmony rules (hue offsets, lightness steps, saturation multipliers)
+ * - Hue rotation in OKLCH (perceptually even, gamut-mapped) or HSL (legacy)
+ * - Saturation/chroma multiplier, per-ring falloff and chroma normalization
  * - Configurable number of color rings (3-12)
- * - Tint and shade generation for color variations
+ * - Hue offsets of a harmony, for building base colors without an image
+ * - Tints and shades of a color, from its tonal scale
  *
  * All functions are pure and side-effect free for predictable behavior.
  */
 
-import { Color, HarmonyMode } from '@/types/color.types';
+import {
+  Color,
+  ColorCountAnalysis,
+  ColorCountCriterion,
+  FalloffCurve,
+  HarmonyMode,
+  HarmonyOptions,
+  HarmonySpace,
+  HarmonyRule,
+  ExtractionAlgorithm,
+  ExtractionColorSpace,
+  ExtractionOptions,
+  ExtractionProgressCallback
+} from '@/types/color.types';
+import { rgbToOklab, oklabToRgb, oklabToOklch, gamutMapOklch, rgbToLab, labToRgb, deltaE2000 } from '@/lib/color-spaces';
+import { fromRgb, fromHsl, fromDisplayP3, fromOklab, colorToOklab } from '@/lib/color-value';
+import { createRandom, RandomSource } from '@/lib/random';
+import { samplePixels, PixelSample, DEFAULT_ALPHA_MODE } from '@/lib/pixel-sampling';
+import { DEFAULT_WEIGHTING } from '@/lib/sampling-weights';
+import { generateTonalScale } from '@/lib/tonal-scales';
 
 /**
- * Converts RGB color values to HSL (Hue, Saturation, Lightness).
- *
- * HSL is more intuitive for color manipulation as it separates
- * hue (color) from saturation and lightness, making it easier
- * to generate color variations.
+ * A color space in which k-means runs.
  *
- * @param {number} r - Red component (0-255)
- * @param {number} g - Green component (0-255)
- * @param {number} b - Blue component (0-255)
- * @returns {{h: number, s: number, l: number}} HSL values where h is 0-1, s is 0-1, l is 0-1
+ * Pixels are converted into the working space once, clustered there and
+ * converted back to RGB for the resulting palette. `minDistance` is the
+ * threshold below which two centroids are considered duplicates and is
+ * expressed in the space's own distance units.
  */
-export function rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
-  r /= 255;
-  g /= 255;
-  b /= 255;
-
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  let h = 0;
-  let s = 0;
-  const l = (max + min) / 2;
-
-  if (max !== min) {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-    switch (max) {
-      case r:
-        h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-        break;
-      case g:
-        h = ((b - r) / d + 2) / 6;
-        break;
-      case b:
-        h = ((r - g) / d + 4) / 6;
-        break;
-    }
-  }
-
-  return {
-    h: Math.round(h * 360),
-    s: Math.round(s * 100),
-    l: Math.round(l * 100),
-  };
-}
-
-// Convert HSL to RGB
-export function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
-  h /= 360;
-  s /= 100;
-  l /= 100;
-
-  let r, g, b;
-
-  if (s === 0) {
-    r = g = b = l;
-  } else {
-    const hue2rgb = (p: number, q: number, t: number) => {
-      if (t < 0) t += 1;
-      if (t > 1) t -= 1;
-      if (t < 1 / 6) return p + (q - p) * 6 * t;
-      if (t < 1 / 2) return q;
-      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
-      return p;
-    };
-
-    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-    const p = 2 * l - q;
-
-    r = hue2rgb(p, q, h + 1 / 3);
-    g = hue2rgb(p, q, h);
-    b = hue2rgb(p, q, h - 1 / 3);
-  }
-
-  return {
-    r: Math.round(r * 255),
-    g: Math.round(g * 255),
-    b: Math.round(b * 255),
-  };
-}
-
-// Convert RGB to HEX
-export function rgbToHex(r: number, g: number, b: number): string {
-  return '#' + [r, g, b].map(x => x.toString(16).padStart(2, '0')).join('');
+interface WorkingSpace {
+  fromRgb: (rgb: number[]) => number[];
+  toRgb: (color: number[]) => number[];
+  distance: (color1: number[], color2: number[]) => number;
+  minDistance: number;
+  lighten: (color: number[]) => number[];
 }
 
-// Color distance calculation
-function colorDistance(color1: number[], color2: number[]): number {
+// Euclidean distance between two color vectors
+function euclideanDistance(color1: number[], color2: number[]): number {
   return Math.sqrt(
     Math.pow(color1[0] - color2[0], 2) +
     Math.pow(color1[1] - color2[1], 2) +
@@ -122,12 +73,77 @@ function colorDistance(color1: number[], color2: number[]): number {
   );
 }
 
+const WORKING_SPACES: Record<ExtractionColorSpace, WorkingSpace> = {
+  srgb: {
+    fromRgb: (rgb) => [...rgb],
+    toRgb: (color) => color.map(c => Math.max(0, Math.min(255, Math.round(c)))),
+    distance: euclideanDistance,
+    minDistance: 60,
+    lighten: (color) => color.map(c => Math.min(255, c + 30)),
+  },
+  oklab: {
+    fromRgb: ([r, g, b]) => {
+      const lab = rgbToOklab(r, g, b);
+      return [lab.l, lab.a, lab.b];
+    },
+    toRgb: ([l, a, b]) => {
+      const rgb = oklabToRgb(l, a, b);
+      return [rgb.r, rgb.g, rgb.b];
+    },
+    distance: euclideanDistance,
+    minDistance: 0.1,
+    lighten: ([l, a, b]) => [Math.min(1, l + 0.1), a, b],
+  },
+  cielab: {
+    fromRgb: ([r, g, b]) => {
+      const lab = rgbToLab(r, g, b);
+      return [lab.l, lab.a, lab.b];
+    },
+    toRgb: ([l, a, b]) => {
+      const rgb = labToRgb(l, a, b);
+      return [rgb.r, rgb.g, rgb.b];
+    },
+    distance: deltaE2000,
+    minDistance: 12,
+    lighten: ([l, a, b]) => [Math.min(100, l + 10), a, b],
+  },
+};
+
+/**
+ * Default extraction settings. `minDistance` defaults to the working
+ * space's own threshold and `seed` to a random one, so neither is listed.
+ */
+export const DEFAULT_EXTRACTION_OPTIONS = {
+  algorithm: 'kmeans' as ExtractionAlgorithm,
+  colorCount: 5,
+  sampleStride: 4,
+  iterations: 15,
+  colorSpace: 'oklab' as ExtractionColorSpace,
+  alphaMode: DEFAULT_ALPHA_MODE,
+  weighting: DEFAULT_WEIGHTING,
+  autoColorCount: false,
+  colorCountRange: [2, 12] as [number, number],
+  colorCountCriterion: 'silhouette' as ColorCountCriterion,
+};
+
+// Largest number of sampled pixels scored for each candidate color count
+const ANALYSIS_MAX_SAMPLES = 5000;
+
+// Representative pixels are picked among those whose distance to the
+// centroid is within this fraction of the way from the closest to the average
+const REPRESENTATIVE_TOLERANCE = 0.25;
+
 // Initialize distinct centroids for k-means
-function initializeDistinctCentroids(pixels: number[][], k: number): number[][] {
+function initializeDistinctCentroids(
+  pixels: number[][],
+  k: number,
+  space: WorkingSpace,
+  random: RandomSource
+): number[][] {
   const centroids: number[][] = [];
 
   // First centroid is random
-  centroids.push([...pixels[Math.floor(Math.random() * pixels.length)]]);
+  centroids.push([...pixels[Math.floor(random() * pixels.length)]]);
 
   // Subsequent centroids should be far from existing ones
   while (centroids.length < k) {
@@ -136,12 +152,12 @@ function initializeDistinctCentroids(pixels: number[][], k: number): number[][]
 
     // Try several random candidates
     for (let tries = 0; tries < 50; tries++) {
-      const candidate = pixels[Math.floor(Math.random() * pixels.length)];
+      const candidate = pixels[Math.floor(random() * pixels.length)];
 
       // Find minimum distance to existing centroids
       let minDistToExisting = Infinity;
       centroids.forEach(centroid => {
-        const dist = colorDistance(candidate, centroid);
+        const dist = space.distance(candidate, centroid);
         minDistToExisting = Math.min(minDistToExisting, dist);
       });
 
@@ -155,7 +171,7 @@ function initializeDistinctCentroids(pixels: number[][], k: number): number[][]
     if (bestCandidate) {
       centroids.push([...bestCandidate]);
     } else {
-      centroids.push([...pixels[Math.floor(Math.random() * pixels.length)]]);
+      centroids.push([...pixels[Math.floor(random() * pixels.length)]]);
     }
   }
 
@@ -163,14 +179,19 @@ function initializeDistinctCentroids(pixels: number[][], k: number): number[][]
 }
 
 // Ensure colors are distinct
-function ensureDistinctColors(centroids: number[][], pixels: number[][], minDistance: number): number[][] {
+function ensureDistinctColors(
+  centroids: number[][],
+  rgbPixels: number[][],
+  space: WorkingSpace,
+  minDistance: number
+): number[][] {
   const distinctColors: number[][] = [];
 
   centroids.forEach(centroid => {
     let isDistinct = true;
 
     distinctColors.forEach(existing => {
-      if (colorDistance(centroid, existing) < minDistance) {
+      if (space.distance(centroid, existing) < minDistance) {
         isDistinct = false;
       }
     });
@@ -179,16 +200,11 @@ function ensureDistinctColors(centroids: number[][], pixels: number[][], minDist
       distinctColors.push(centroid);
     } else {
       // Find a replacement color that's distinct
-      let replacement = findDistinctReplacement(centroid, distinctColors, pixels, minDistance);
+      const replacement = findDistinctReplacement(distinctColors, rgbPixels, space, minDistance);
       if (replacement) {
         distinctColors.push(replacement);
       } else {
-        const adjusted = [
-          Math.min(255, centroid[0] + 30),
-          Math.min(255, centroid[1] + 30),
-          Math.min(255, centroid[2] + 30)
-        ];
-        distinctColors.push(adjusted);
+        distinctColors.push(space.lighten(centroid));
       }
     }
   });
@@ -198,15 +214,15 @@ function ensureDistinctColors(centroids: number[][], pixels: number[][], minDist
 
 // Find distinct replacement color
 function findDistinctReplacement(
-  originalColor: number[],
   existingColors: number[][],
-  pixels: number[][],
+  rgbPixels: number[][],
+  space: WorkingSpace,
   minDistance: number
 ): number[] | null {
   const colorCounts = new Map<string, number>();
 
-  for (let i = 0; i < Math.min(pixels.length, 1000); i += 10) {
-    const pixel = pixels[i];
+  for (let i = 0; i < Math.min(rgbPixels.length, 1000); i += 10) {
+    const pixel = rgbPixels[i];
     const key = `${pixel[0]},${pixel[1]},${pixel[2]}`;
     colorCounts.set(key, (colorCounts.get(key) || 0) + 1);
   }
@@ -216,12 +232,11 @@ function findDistinctReplacement(
     .slice(0, 100);
 
   for (const [colorKey] of sortedColors) {
-    const [r, g, b] = colorKey.split(',').map(Number);
-    const candidate = [r, g, b];
+    const candidate = space.fromRgb(colorKey.split(',').map(Number));
 
     let isDistinct = true;
     existingColors.forEach(existing => {
-      if (colorDistance(candidate, existing) < minDistance) {
+      if (space.distance(candidate, existing) < minDistance) {
         isDistinct = false;
       }
     });
@@ -234,40 +249,158 @@ function findDistinctReplacement(
   return null;
 }
 
-// K-means color extraction
-export function extractColorsKMeans(imageData: ImageData, k: number = 5): Color[] {
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-
-  // Sample pixels with their positions
-  const pixels: number[][] = [];
-  const pixelPositions: { x: number; y: number; index: number }[] = [];
-
-  for (let y = 0; y < height; y += 4) {
-    for (let x = 0; x < width; x += 4) {
-      const i = (y * width + x) * 4;
-      if (i < data.length) {
-        pixels.push([data[i], data[i + 1], data[i + 2]]);
-        pixelPositions.push({ x, y, index: pixels.length - 1 });
+// Index of the nearest centroid for every pixel (the first one on ties)
+function assignToNearest(pixels: number[][], centroids: number[][], space: WorkingSpace): number[] {
+  return pixels.map(pixel => {
+    let minDist = Infinity;
+    let closest = 0;
+    centroids.forEach((centroid, idx) => {
+      const dist = space.distance(pixel, centroid);
+      if (dist < minDist) {
+        minDist = dist;
+        closest = idx;
       }
+    });
+    return closest;
+  });
+}
+
+/**
+ * Turns cluster colors into Color objects with representative positions.
+ *
+ * Shared by every extractor: for each cluster the most important sampled
+ * pixel among those closest to the cluster color becomes its position in
+ * the image, and the share of sampled pixels assigned to the cluster
+ * (weighted by alpha, not by importance) becomes its weight. Clusters of semi-transparent pixels get their mean alpha. Clusters
+ * without pixels are spread evenly across the image, and the result is
+ * padded with neutral grey (weight 0) up to exactly k colors.
+ *
+ * Clusters of Display P3 samples are read as Display P3, so they keep
+ * colors outside sRGB. Clustering itself treats their channels like sRGB
+ * ones, which is close enough for grouping similar pixels.
+ *
+ * @param {number[][]} rgbColors - Cluster colors as [r, g, b] (0-255, in the sample's color space)
+ * @param {PixelSample} sample - Sampled pixels the clusters were built from
+ * @param {number[]} assignments - Cluster index of each sampled pixel
+ * @param {number} k - Number of colors to return
+ * @param {Function} distance - Distance between a sampled pixel and a cluster (default: Euclidean RGB)
+ * @returns {Color[]} Exactly k colors
+ */
+export function buildPaletteColors(
+  rgbColors: number[][],
+  sample: PixelSample,
+  assignments: number[],
+  k: number,
+  distance: (pixelIdx: number, clusterIdx: number) => number = (pixelIdx, clusterIdx) =>
+    euclideanDistance(sample.pixels[pixelIdx], rgbColors[clusterIdx])
+): Color[] {
+  const { width, height } = sample;
+  const isMember = (clusterIdx: number | undefined) =>
+    clusterIdx !== undefined && clusterIdx >= 0 && clusterIdx < rgbColors.length;
+
+  const distances = new Array<number>(assignments.length);
+  const minDistances = new Array<number>(rgbColors.length).fill(Infinity);
+  const distanceSums = new Array<number>(rgbColors.length).fill(0);
+  const populations = new Array<number>(rgbColors.length).fill(0);
+  const memberCounts = new Array<number>(rgbColors.length).fill(0);
+  const alphaSums = new Array<number>(rgbColors.length).fill(0);
+  let assignedWeight = 0;
+
+  assignments.forEach((clusterIdx, pixelIdx) => {
+    if (!isMember(clusterIdx)) return;
+
+    // Coverage ignores importance: it reports how much of the image a color takes
+    const coverage = sample.weights[pixelIdx] / sample.importance[pixelIdx];
+    populations[clusterIdx] += coverage;
+    assignedWeight += coverage;
+    memberCounts[clusterIdx]++;
+    alphaSums[clusterIdx] += sample.alphas[pixelIdx];
+
+    distances[pixelIdx] = distance(pixelIdx, clusterIdx);
+    minDistances[clusterIdx] = Math.min(minDistances[clusterIdx], distances[pixelIdx]);
+    distanceSums[clusterIdx] += distances[pixelIdx];
+  });
+
+  // Find representative positions: the most important pixel among those
+  // close to the centroid (relative to the cluster's spread), nearest first
+  const bestPixel = new Array<number>(rgbColors.length).fill(-1);
+  const bestImportance = new Array<number>(rgbColors.length).fill(-1);
+  const bestDistance = new Array<number>(rgbColors.length).fill(Infinity);
+
+  assignments.forEach((clusterIdx, pixelIdx) => {
+    if (!isMember(clusterIdx)) return;
+
+    const meanDistance = distanceSums[clusterIdx] / memberCounts[clusterIdx];
+    const threshold = minDistances[clusterIdx] + REPRESENTATIVE_TOLERANCE * (meanDistance - minDistances[clusterIdx]);
+    if (distances[pixelIdx] > threshold) return;
+
+    const importance = sample.importance[pixelIdx];
+    if (
+      importance > bestImportance[clusterIdx] ||
+      (importance === bestImportance[clusterIdx] && distances[pixelIdx] < bestDistance[clusterIdx])
+    ) {
+      bestPixel[clusterIdx] = pixelIdx;
+      bestImportance[clusterIdx] = importance;
+      bestDistance[clusterIdx] = distances[pixelIdx];
     }
-  }
+  });
+
+  const result: Color[] = rgbColors.slice(0, k).map((rgb, idx) => {
+    const position = bestPixel[idx] >= 0
+      ? { ...sample.positions[bestPixel[idx]] }
+      : { x: Math.round((width / (k + 1)) * (idx + 1)), y: Math.round(height / 2) };
+    const alpha = memberCounts[idx] > 0 ? alphaSums[idx] / memberCounts[idx] : 1;
+    const value = sample.gamut === 'display-p3'
+      ? fromDisplayP3(rgb[0] / 255, rgb[1] / 255, rgb[2] / 255, alpha)
+      : fromRgb(rgb[0], rgb[1], rgb[2], alpha);
+
+    return {
+      ...value,
+      position,
+      weight: assignedWeight > 0 ? populations[idx] / assignedWeight : 0
+    };
+  });
 
-  if (pixels.length === 0) {
-    return Array(k).fill(null).map(() => ({
-      r: 128, g: 128, b: 128, h: 0, s: 0, l: 50,
-      hex: '#808080',
-      position: { x: width / 2, y: height / 2 }
-    }));
+  while (result.length < k) {
+    result.push({
+      ...fromRgb(128, 128, 128),
+      position: { x: width / 2, y: height / 2 },
+      weight: 0
+    });
   }
 
-  let centroids = initializeDistinctCentroids(pixels, k);
-  let assignments = new Array(pixels.length);
+  return result;
+}
+
+/**
+ * Orders colors by dominance, most covered first.
+ *
+ * Colors without a weight keep their relative order after weighted ones.
+ *
+ * @param {Color[]} colors - Colors to sort
+ * @returns {Color[]} New array sorted by descending weight
+ */
+export function sortColorsByWeight(colors: Color[]): Color[] {
+  return [...colors].sort((a, b) => (b.weight ?? -1) - (a.weight ?? -1));
+}
+
+// Cluster working-space pixels with weighted k-means
+function runKMeans(
+  pixels: number[][],
+  weights: number[],
+  k: number,
+  space: WorkingSpace,
+  iterations: number,
+  random: RandomSource,
+  onProgress?: ExtractionProgressCallback
+): { centroids: number[][]; assignments: number[] } {
+  let centroids = initializeDistinctCentroids(pixels, k, space, random);
+  const assignments: number[] = new Array(pixels.length);
 
   // K-means iterations
-  for (let iter = 0; iter < 15; iter++) {
-    const clusters = Array(k).fill(null).map(() => [] as number[][]);
+  for (let iter = 0; iter < iterations; iter++) {
+    const sums = Array(k).fill(null).map(() => [0, 0, 0]);
+    const totals = new Array<number>(k).fill(0);
 
     // Assign pixels to clusters
     pixels.forEach((pixel, pixelIdx) => {
@@ -275,228 +408,512 @@ export function extractColorsKMeans(imageData: ImageData, k: number = 5): Color[
       let closestCentroid = 0;
 
       centroids.forEach((centroid, idx) => {
-        const dist = colorDistance(pixel, centroid);
+        const dist = space.distance(pixel, centroid);
         if (dist < minDist) {
           minDist = dist;
           closestCentroid = idx;
         }
       });
 
-      clusters[closestCentroid].push(pixel);
+      const weight = weights[pixelIdx];
+      sums[closestCentroid][0] += pixel[0] * weight;
+      sums[closestCentroid][1] += pixel[1] * weight;
+      sums[closestCentroid][2] += pixel[2] * weight;
+      totals[closestCentroid] += weight;
       assignments[pixelIdx] = closestCentroid;
     });
 
-    // Update centroids
-    centroids = clusters.map((cluster, idx) => {
-      if (cluster.length === 0) {
-        const randomIndex = Math.floor(Math.random() * pixels.length);
+    // Update centroids (weighted mean of their pixels)
+    centroids = sums.map((sum, idx) => {
+      if (totals[idx] === 0) {
+        const randomIndex = Math.floor(random() * pixels.length);
         return [...pixels[randomIndex]];
       }
 
-      const sum = cluster.reduce((acc, pixel) => [
-        acc[0] + pixel[0],
-        acc[1] + pixel[1],
-        acc[2] + pixel[2]
-      ], [0, 0, 0]);
-
       return [
-        Math.round(sum[0] / cluster.length),
-        Math.round(sum[1] / cluster.length),
-        Math.round(sum[2] / cluster.length)
+        sum[0] / totals[idx],
+        sum[1] / totals[idx],
+        sum[2] / totals[idx]
       ];
     });
-  }
 
-  centroids = ensureDistinctColors(centroids, pixels, 60);
+    onProgress?.((iter + 1) / iterations);
+  }
 
-  // Find representative positions
-  const colorPositions = centroids.map((centroid, clusterIdx) => {
-    const clusterPositions = pixelPositions.filter(pos => assignments[pos.index] === clusterIdx);
+  return { centroids, assignments };
+}
 
-    if (clusterPositions.length === 0) {
-      const x = (width / (k + 1)) * (clusterIdx + 1);
-      const y = height / 2;
-      return { x: Math.round(x), y: Math.round(y) };
-    }
+/**
+ * Extracts the k dominant colors of an image with k-means clustering.
+ *
+ * Pixels are sampled on a regular grid, clustered in the configured working
+ * space (OKLab by default) and de-duplicated so that no two resulting
+ * colors are perceptually too close. Each color carries the position of
+ * the sampled pixel closest to its centroid. Passing a seed makes the
+ * result fully deterministic.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {ExtractionOptions} options - Extraction options (see DEFAULT_EXTRACTION_OPTIONS)
+ * @param {ExtractionProgressCallback} onProgress - Called after every iteration (optional)
+ * @returns {Color[]} Exactly colorCount colors with their positions in the image
+ */
+export function extractColorsKMeans(
+  imageData: ImageData,
+  options: ExtractionOptions = {},
+  onProgress?: ExtractionProgressCallback
+): Color[] {
+  const k = Math.max(1, Math.round(options.colorCount ?? DEFAULT_EXTRACTION_OPTIONS.colorCount));
+  const iterations = Math.max(1, Math.round(options.iterations ?? DEFAULT_EXTRACTION_OPTIONS.iterations));
+  const space = WORKING_SPACES[options.colorSpace ?? DEFAULT_EXTRACTION_OPTIONS.colorSpace];
+  const minDistance = options.minDistance ?? space.minDistance;
+  const random = createRandom(options.seed);
+
+  const sample = samplePixels(imageData, options.sampleStride ?? DEFAULT_EXTRACTION_OPTIONS.sampleStride, options);
+
+  if (sample.pixels.length === 0) {
+    return buildPaletteColors([], sample, [], k);
+  }
 
-    let bestPosition = clusterPositions[0];
-    let minDistance = Infinity;
+  const pixels = sample.pixels.map(pixel => space.fromRgb(pixel));
+  const clustering = runKMeans(pixels, sample.weights, k, space, iterations, random, onProgress);
+  const centroids = ensureDistinctColors(clustering.centroids, sample.pixels, space, minDistance);
+  // De-duplication replaces or moves centroids, so coverage and positions
+  // come from pixels assigned to the final colors
+  const assignments = assignToNearest(pixels, centroids, space);
+
+  return buildPaletteColors(
+    centroids.map(centroid => space.toRgb(centroid)),
+    sample,
+    assignments,
+    k,
+    (pixelIdx, clusterIdx) => space.distance(pixels[pixelIdx], centroids[clusterIdx])
+  );
+}
 
-    clusterPositions.forEach(pos => {
-      const pixel = pixels[pos.index];
-      const dist = colorDistance(pixel, centroid);
-      if (dist < minDistance) {
-        minDistance = dist;
-        bestPosition = pos;
-      }
+// Weighted simplified silhouette: compares each pixel's distance to its own
+// centroid (a) with the distance to the nearest other centroid (b)
+function silhouetteScore(
+  pixels: number[][],
+  weights: number[],
+  centroids: number[][],
+  assignments: number[],
+  space: WorkingSpace
+): number {
+  let score = 0;
+  let total = 0;
+
+  pixels.forEach((pixel, pixelIdx) => {
+    const own = assignments[pixelIdx];
+    const a = space.distance(pixel, centroids[own]);
+    let b = Infinity;
+
+    centroids.forEach((centroid, idx) => {
+      if (idx !== own) b = Math.min(b, space.distance(pixel, centroid));
     });
 
-    return { x: bestPosition.x, y: bestPosition.y };
+    const denominator = Math.max(a, b);
+    score += weights[pixelIdx] * (denominator > 0 && Number.isFinite(b) ? (b - a) / denominator : 0);
+    total += weights[pixelIdx];
   });
 
-  const result = centroids.slice(0, k).map((rgb, idx) => {
-    const hsl = rgbToHsl(rgb[0], rgb[1], rgb[2]);
-    return {
-      r: rgb[0],
-      g: rgb[1],
-      b: rgb[2],
-      h: hsl.h,
-      s: hsl.s,
-      l: hsl.l,
-      hex: rgbToHex(rgb[0], rgb[1], rgb[2]),
-      position: colorPositions[idx] || { x: width / 2, y: height / 2 }
-    };
+  return total > 0 ? Math.max(0, score / total) : 0;
+}
+
+// Share of the total variance explained by the clustering (1 - WCSS / TSS)
+function explainedVariance(
+  pixels: number[][],
+  weights: number[],
+  centroids: number[][],
+  assignments: number[],
+  space: WorkingSpace
+): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const mean = [0, 1, 2].map(channel =>
+    pixels.reduce((sum, pixel, pixelIdx) => sum + pixel[channel] * weights[pixelIdx], 0) / total
+  );
+
+  let within = 0;
+  let overall = 0;
+  pixels.forEach((pixel, pixelIdx) => {
+    within += weights[pixelIdx] * Math.pow(space.distance(pixel, centroids[assignments[pixelIdx]]), 2);
+    overall += weights[pixelIdx] * Math.pow(space.distance(pixel, mean), 2);
   });
 
-  while (result.length < k) {
-    result.push({
-      r: 128, g: 128, b: 128, h: 0, s: 0, l: 50,
-      hex: '#808080',
-      position: { x: width / 2, y: height / 2 }
-    });
-  }
+  return overall > 0 ? Math.max(0, 1 - within / overall) : 1;
+}
 
-  return result;
+// Elbow of an increasing curve: the point furthest above the chord joining its ends
+function findElbow(scores: { colorCount: number; score: number }[]): number {
+  const first = scores[0];
+  const last = scores[scores.length - 1];
+  let best = first;
+  let bestGap = 0;
+
+  scores.forEach(entry => {
+    const t = (entry.colorCount - first.colorCount) / Math.max(1, last.colorCount - first.colorCount);
+    const gap = entry.score - (first.score + t * (last.score - first.score));
+    if (gap > bestGap) {
+      bestGap = gap;
+      best = entry;
+    }
+  });
+
+  return best.colorCount;
 }
 
-// Generate complementary colors
-export function generateComplementaryColors(baseColor: Color, rings: number, mode: HarmonyMode = 'complementary'): Color[] {
-  const colors: Color[] = [];
-
-  switch (mode) {
-    case 'complementary':
-      // Generate colors at opposite hue
-      for (let i = 0; i < rings; i++) {
-        const lightnessVariation = (i - rings / 2) * (60 / rings);
-        const newL = Math.max(10, Math.min(90, baseColor.l + lightnessVariation));
-        const newH = (baseColor.h + 180) % 360;
-
-        const rgb = hslToRgb(newH, baseColor.s, newL);
-        const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-
-        colors.push({
-          ...rgb,
-          ...hsl,
-          hex: rgbToHex(rgb.r, rgb.g, rgb.b)
-        });
-      }
-      break;
-
-    case 'analogous':
-      // Generate colors at similar hues
-      for (let i = 0; i < rings; i++) {
-        const hueOffset = ((i - rings / 2) * 60) / rings;
-        const newH = (baseColor.h + hueOffset + 360) % 360;
-        const lightnessVariation = (i % 2 === 0 ? 10 : -10);
-        const newL = Math.max(10, Math.min(90, baseColor.l + lightnessVariation));
-
-        const rgb = hslToRgb(newH, baseColor.s, newL);
-        const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-
-        colors.push({
-          ...rgb,
-          ...hsl,
-          hex: rgbToHex(rgb.r, rgb.g, rgb.b)
-        });
-      }
-      break;
-
-    case 'triadic':
-      // Generate colors at 120° intervals
-      const triadicHues = [0, 120, 240];
-      for (let i = 0; i < rings; i++) {
-        const hueIndex = i % 3;
-        const newH = (baseColor.h + triadicHues[hueIndex]) % 360;
-        const lightnessVariation = Math.floor(i / 3) * (40 / Math.ceil(rings / 3));
-        const newL = Math.max(10, Math.min(90, baseColor.l + lightnessVariation - 20));
-
-        const rgb = hslToRgb(newH, baseColor.s, newL);
-        const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-
-        colors.push({
-          ...rgb,
-          ...hsl,
-          hex: rgbToHex(rgb.r, rgb.g, rgb.b)
-        });
-      }
-      break;
-
-    case 'tetradic':
-      // Generate colors at 90° intervals
-      const tetradicHues = [0, 90, 180, 270];
-      for (let i = 0; i < rings; i++) {
-        const hueIndex = i % 4;
-        const newH = (baseColor.h + tetradicHues[hueIndex]) % 360;
-        const lightnessVariation = Math.floor(i / 4) * (40 / Math.ceil(rings / 4));
-        const newL = Math.max(10, Math.min(90, baseColor.l + lightnessVariation - 20));
-
-        const rgb = hslToRgb(newH, baseColor.s, newL);
-        const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-
-        colors.push({
-          ...rgb,
-          ...hsl,
-          hex: rgbToHex(rgb.r, rgb.g, rgb.b)
-        });
-      }
-      break;
-
-    case 'split-complementary':
-      // Generate colors at ±150° from base
-      const splitHues = [0, 150, 210];
-      for (let i = 0; i < rings; i++) {
-        const hueIndex = i % 3;
-        const newH = (baseColor.h + splitHues[hueIndex]) % 360;
-        const lightnessVariation = Math.floor(i / 3) * (40 / Math.ceil(rings / 3));
-        const newL = Math.max(10, Math.min(90, baseColor.l + lightnessVariation - 20));
-
-        const rgb = hslToRgb(newH, baseColor.s, newL);
-        const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-
-        colors.push({
-          ...rgb,
-          ...hsl,
-          hex: rgbToHex(rgb.r, rgb.g, rgb.b)
-        });
-      }
-      break;
+/**
+ * Picks the number of colors for an image automatically.
+ *
+ * Runs k-means for every color count in `colorCountRange` on a subsample
+ * of the image and scores each clustering:
+ * - silhouette: the color count with the best separated clusters wins
+ * - elbow: the color count after which extra colors explain little more
+ *   of the image's color variance wins
+ *
+ * Uses the same seed, working space and sampling options as
+ * extractColorsKMeans, so the choice is reproducible.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {ExtractionOptions} options - Extraction options (see DEFAULT_EXTRACTION_OPTIONS)
+ * @param {ExtractionProgressCallback} onProgress - Called after every color count tried (optional)
+ * @returns {ColorCountAnalysis} Chosen color count and the score of each candidate
+ */
+export function analyzeColorCount(
+  imageData: ImageData,
+  options: ExtractionOptions = {},
+  onProgress?: ExtractionProgressCallback
+): ColorCountAnalysis {
+  const criterion = options.colorCountCriterion ?? DEFAULT_EXTRACTION_OPTIONS.colorCountCriterion;
+  const [rangeMin, rangeMax] = options.colorCountRange ?? DEFAULT_EXTRACTION_OPTIONS.colorCountRange;
+  const minCount = Math.max(2, Math.round(rangeMin));
+  const maxCount = Math.max(minCount, Math.round(rangeMax));
+  const iterations = Math.max(1, Math.round(options.iterations ?? DEFAULT_EXTRACTION_OPTIONS.iterations));
+  const space = WORKING_SPACES[options.colorSpace ?? DEFAULT_EXTRACTION_OPTIONS.colorSpace];
+
+  const sample = samplePixels(imageData, options.sampleStride ?? DEFAULT_EXTRACTION_OPTIONS.sampleStride, options);
+  const step = Math.ceil(sample.pixels.length / ANALYSIS_MAX_SAMPLES);
+  const pixels: number[][] = [];
+  const weights: number[] = [];
+
+  for (let i = 0; i < sample.pixels.length; i += step) {
+    pixels.push(space.fromRgb(sample.pixels[i]));
+    weights.push(sample.weights[i]);
   }
 
-  return colors.slice(0, rings);
+  const scores: { colorCount: number; score: number }[] = [];
+
+  for (let k = minCount; k <= maxCount && k <= pixels.length; k++) {
+    const { centroids, assignments } = runKMeans(pixels, weights, k, space, iterations, createRandom(options.seed));
+    const score = criterion === 'silhouette'
+      ? silhouetteScore(pixels, weights, centroids, assignments, space)
+      : explainedVariance(pixels, weights, centroids, assignments, space);
+
+    scores.push({ colorCount: k, score });
+    onProgress?.((k - minCount + 1) / (maxCount - minCount + 1));
+  }
+
+  if (scores.length === 0) {
+    return { criterion, colorCount: minCount, scores };
+  }
+
+  const colorCount = criterion === 'silhouette'
+    ? scores.reduce((best, entry) => (entry.score > best.score ? entry : best)).colorCount
+    : findElbow(scores);
+
+  return { criterion, colorCount, scores };
 }
 
-// Generate tints, shades, and tones
-export function generateColorVariations(baseColor: Color, count: number = 5): Color[] {
-  const variations: Color[] = [];
-
-  // Generate lighter tints
-  for (let i = 1; i <= Math.floor(count / 2); i++) {
-    const newL = Math.min(95, baseColor.l + (i * 15));
-    const rgb = hslToRgb(baseColor.h, baseColor.s, newL);
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
-
-    variations.push({
-      ...rgb,
-      ...hsl,
-      hex: rgbToHex(rgb.r, rgb.g, rgb.b)
-    });
+/**
+ * Merges colors from several palettes into k colors.
+ *
+ * Runs weighted k-means over the colors themselves in the working space,
+ * so colors that look alike are combined and heavier colors pull the
+ * result towards them. Each merged color keeps the position, source image
+ * and region of its heaviest member, and its weight is its share of the
+ * total weight. Groups with wide-gamut members are averaged in OKLab from
+ * their exact values, so the merged color stays outside sRGB.
+ *
+ * @param {Color[]} colors - Colors to merge
+ * @param {number[]} weights - How much each color counts (e.g. coverage times image weight)
+ * @param {number} k - Number of colors to return (at most)
+ * @param {ExtractionOptions} options - Extraction options (colorSpace, iterations, seed)
+ * @returns {Color[]} Up to k merged colors
+ */
+export function mergeColors(colors: Color[], weights: number[], k: number, options: ExtractionOptions = {}): Color[] {
+  const space = WORKING_SPACES[options.colorSpace ?? DEFAULT_EXTRACTION_OPTIONS.colorSpace];
+  const iterations = Math.max(1, Math.round(options.iterations ?? DEFAULT_EXTRACTION_OPTIONS.iterations));
+
+  // Images weighted to zero everywhere would leave nothing to cluster
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const clusterWeights = totalWeight > 0 ? weights : weights.map(() => 1);
+  const clusterTotal = totalWeight > 0 ? totalWeight : weights.length;
+
+  if (colors.length <= k) {
+    return colors.map((color, idx) => ({ ...color, weight: clusterWeights[idx] / clusterTotal }));
   }
 
-  // Add base color
-  variations.push(baseColor);
+  const pixels = colors.map(color => space.fromRgb([color.r, color.g, color.b]));
+  const { centroids, assignments } = runKMeans(
+    pixels, clusterWeights, k, space, iterations, createRandom(options.seed)
+  );
 
-  // Generate darker shades
-  for (let i = 1; i <= Math.floor(count / 2); i++) {
-    const newL = Math.max(5, baseColor.l - (i * 15));
-    const rgb = hslToRgb(baseColor.h, baseColor.s, newL);
-    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+  const merged: Color[] = [];
+
+  centroids.forEach((centroid, clusterIdx) => {
+    const members = assignments
+      .map((assigned, colorIdx) => (assigned === clusterIdx ? colorIdx : -1))
+      .filter(colorIdx => colorIdx >= 0);
+    if (members.length === 0) return;
+
+    const heaviest = members.reduce((best, colorIdx) =>
+      clusterWeights[colorIdx] > clusterWeights[best] ? colorIdx : best
+    );
+    const weight = members.reduce((sum, colorIdx) => sum + clusterWeights[colorIdx], 0);
+    const alpha = members.reduce((sum, colorIdx) => sum + (colors[colorIdx].alpha ?? 1) * clusterWeights[colorIdx], 0) / (weight || 1);
+
+    const { position, regionId, sourceIndex } = colors[heaviest];
+    let value: Color;
+
+    if (members.some(colorIdx => colors[colorIdx].displayP3)) {
+      const mean = members.reduce((sum, colorIdx) => {
+        const share = weight > 0 ? clusterWeights[colorIdx] / weight : 1 / members.length;
+        const { l, a, b } = colorToOklab(colors[colorIdx]);
+        return [sum[0] + l * share, sum[1] + a * share, sum[2] + b * share];
+      }, [0, 0, 0]);
+      value = fromOklab(mean[0], mean[1], mean[2], alpha);
+    } else {
+      const [r, g, b] = space.toRgb(centroid);
+      value = fromRgb(r, g, b, alpha);
+    }
 
-    variations.push({
-      ...rgb,
-      ...hsl,
-      hex: rgbToHex(rgb.r, rgb.g, rgb.b)
+    merged.push({
+      ...value,
+      position,
+      weight: weight / clusterTotal,
+      ...(regionId !== undefined && { regionId }),
+      ...(sourceIndex !== undefined && { sourceIndex })
     });
+  });
+
+  return merged;
+}
+
+/**
+ * Default harmony generation settings.
+ */
+export const DEFAULT_HARMONY_OPTIONS: Required<HarmonyOptions> = {
+  space: 'oklch',
+  saturation: 1,
+  falloff: 0,
+  falloffCurve: 'linear',
+  normalizeChroma: false,
+};
+
+/**
+ * Registry of falloff curves: share of the falloff applied at position
+ * t (0 for the first ring, 1 for the last one).
+ */
+const FALLOFF_CURVES: Record<FalloffCurve, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t,
+  'ease-out': (t) => 1 - (1 - t) * (1 - t),
+};
+
+// Hue offset (degrees), lightness shift (percentage points) and saturation
+// (or chroma) factor of a generated color
+interface HarmonyStep {
+  hue: number;
+  lightness: number;
+  saturation: number;
+}
+
+// Cycle through hue offsets, each round lighter than the previous one,
+// starting 20 points below the base color. Each hue may scale saturation.
+function cycleHues(hues: number[], saturations: number[] = []): (index: number, rings: number) => HarmonyStep {
+  return (index, rings) => ({
+    hue: hues[index % hues.length],
+    lightness: Math.floor(index / hues.length) * (40 / Math.ceil(rings / hues.length)) - 20,
+    saturation: saturations[index % hues.length] ?? 1
+  });
+}
+
+// Position of the index-th of `rings` colors, evenly spread over -1..1
+function spread(index: number, rings: number): number {
+  return rings > 1 ? (index / (rings - 1)) * 2 - 1 : 0;
+}
+
+/**
+ * Registry of harmony modes: where the index-th of `rings` generated
+ * colors sits relative to the base color.
+ */
+const HARMONY_STEPS: Record<HarmonyMode, (index: number, rings: number) => HarmonyStep> = {
+  // Opposite hue, lightness spread around the base
+  complementary: (index, rings) => ({ hue: 180, lightness: (index - rings / 2) * (60 / rings), saturation: 1 }),
+  // Neighboring hues within 60°, alternately lighter and darker
+  analogous: (index, rings) => ({
+    hue: ((index - rings / 2) * 60) / rings,
+    lightness: index % 2 === 0 ? 10 : -10,
+    saturation: 1
+  }),
+  // 120° intervals
+  triadic: cycleHues([0, 120, 240]),
+  // 90° intervals
+  square: cycleHues([0, 90, 180, 270]),
+  // Former name of square
+  tetradic: cycleHues([0, 90, 180, 270]),
+  // Two complementary pairs 60° apart, the second pair slightly muted
+  rectangle: cycleHues([0, 60, 180, 240], [1, 0.85, 1, 0.85]),
+  // ±150° from the base
+  'split-complementary': cycleHues([0, 150, 210]),
+  // ±30° from the base and from its complement, the base side slightly muted
+  'double-split-complementary': cycleHues([30, 150, 210, 330], [0.85, 1, 1, 0.85]),
+  // A neighboring hue (muted) plus the complement and one hue next to it (softer)
+  compound: cycleHues([30, 180, 150], [0.7, 1, 0.85]),
+  // Same hue from dark to light, saturation easing off towards both ends
+  monochromatic: (index, rings) => ({
+    hue: 0,
+    lightness: spread(index, rings) * 35,
+    saturation: 1 - 0.4 * Math.abs(spread(index, rings))
+  }),
+  // Same hue, darker and slightly less saturated at every step
+  shades: (index, rings) => ({
+    hue: 0,
+    lightness: -((index + 1) * 45) / rings,
+    saturation: 1 - (0.3 * index) / rings
+  }),
+};
+
+// Steps of a custom rule: every list repeats independently
+function ruleSteps(rule: HarmonyRule): (index: number) => HarmonyStep {
+  return (index) => ({
+    hue: rule.hues[index % rule.hues.length],
+    lightness: rule.lightness[index % rule.lightness.length],
+    saturation: rule.saturation[index % rule.saturation.length]
+  });
+}
+
+// Generated lightness stays within 10-90%
+const clampLightness = (lightness: number) => Math.max(10, Math.min(90, lightness));
+
+/**
+ * Saturation (HSL) or chroma (OKLCH) of a color, in the units the harmony
+ * space works with.
+ *
+ * @param {Color} color - Color to measure
+ * @param {HarmonySpace} space - Harmony color space
+ * @returns {number} HSL saturation (0-100) or OKLCH chroma
+ */
+export function harmonyChroma(color: Color, space: HarmonySpace): number {
+  if (space === 'hsl') return color.s;
+  const lab = colorToOklab(color);
+  return oklabToOklch(lab.l, lab.a, lab.b).c;
+}
+
+/**
+ * Mean saturation (HSL) or chroma (OKLCH) of several colors, the value
+ * harmonies share when chroma is normalized across base colors.
+ *
+ * @param {Color[]} colors - Base colors
+ * @param {HarmonySpace} space - Harmony color space
+ * @returns {number | undefined} Mean value, or undefined for no colors
+ */
+export function meanHarmonyChroma(colors: Color[], space: HarmonySpace): number | undefined {
+  if (colors.length === 0) return undefined;
+  return colors.reduce((sum, color) => sum + harmonyChroma(color, space), 0) / colors.length;
+}
+
+/**
+ * Name a harmony mode is listed under: 'tetradic', the former name of
+ * 'square', is listed as square.
+ *
+ * @param {HarmonyMode} mode - Harmony mode
+ * @returns {HarmonyMode} The mode, or 'square' for 'tetradic'
+ */
+export function canonicalHarmonyMode(mode: HarmonyMode): HarmonyMode {
+  return mode === 'tetradic' ? 'square' : mode;
+}
+
+/**
+ * Hue offsets (degrees) of the colors a harmony generates, in ring order.
+ *
+ * @param {HarmonyMode | HarmonyRule} mode - Harmony mode or custom rule
+ * @param {number} rings - Number of generated colors
+ * @returns {number[]} Hue offset of each ring from the base color
+ */
+export function harmonyHueOffsets(mode: HarmonyMode | HarmonyRule, rings: number): number[] {
+  const step = typeof mode === 'string' ? HARMONY_STEPS[mode] : ruleSteps(mode);
+  return Array.from({ length: rings }, (_, index) => step(index, rings).hue);
+}
+
+/**
+ * Generates harmony colors for a base color.
+ *
+ * In OKLCH the base color's perceived lightness and chroma are kept while
+ * the hue rotates, and each result is gamut-mapped into sRGB (CSS Color 4
+ * algorithm). In HSL (legacy) hue and lightness are shifted on the HSL
+ * values, so colors of different hues look unevenly bright. Each mode
+ * also scales saturation (HSL) or chroma (OKLCH) in its own way, on top
+ * of the global multiplier and the per-ring falloff of the options.
+ *
+ * @param {Color} baseColor - Color the harmony is built around
+ * @param {number} rings - Number of colors to generate
+ * @param {HarmonyMode | HarmonyRule} mode - Color theory rule for the hue offsets, built in or custom (default: complementary)
+ * @param {HarmonyOptions} options - Generation settings (see DEFAULT_HARMONY_OPTIONS)
+ * @param {number} referenceChroma - Saturation or chroma used instead of the base color's (see meanHarmonyChroma); only applied when options.normalizeChroma is set (optional)
+ * @returns {Color[]} Exactly `rings` colors
+ */
+export function generateComplementaryColors(
+  baseColor: Color,
+  rings: number,
+  mode: HarmonyMode | HarmonyRule = 'complementary',
+  options: HarmonyOptions = {},
+  referenceChroma?: number
+): Color[] {
+  const { space, saturation, falloff, falloffCurve, normalizeChroma } = { ...DEFAULT_HARMONY_OPTIONS, ...options };
+  const step = typeof mode === 'string' ? HARMONY_STEPS[mode] : ruleSteps(mode);
+  const curve = FALLOFF_CURVES[falloffCurve];
+  const steps = Array.from({ length: rings }, (_, index) => {
+    const position = rings > 1 ? index / (rings - 1) : 0;
+    const harmonyStep = step(index, rings);
+    return { ...harmonyStep, saturation: harmonyStep.saturation * saturation * (1 - falloff * curve(position)) };
+  });
+  const reference = normalizeChroma ? referenceChroma : undefined;
+
+  if (space === 'hsl') {
+    const chroma = reference ?? baseColor.s;
+    return steps.map(({ hue, lightness, saturation: factor }) =>
+      fromHsl(baseColor.h + hue, chroma * factor, clampLightness(baseColor.l + lightness))
+    );
   }
 
-  return variations;
+  const lab = colorToOklab(baseColor);
+  const base = oklabToOklch(lab.l, lab.a, lab.b);
+  const chroma = reference ?? base.c;
+
+  return steps.map(({ hue, lightness, saturation: factor }) => {
+    const { r, g, b } = gamutMapOklch(clampLightness(base.l * 100 + lightness) / 100, chroma * factor, base.h + hue);
+    return fromRgb(r, g, b);
+  });
+}
+
+/**
+ * Generates lighter tints and darker shades of a color, taken from its
+ * tonal scale (see generateTonalScale).
+ *
+ * @param {Color} baseColor - Color to vary
+ * @param {number} count - Number of colors, the base color included (default: 5)
+ * @returns {Color[]} 2 * floor(count / 2) + 1 colors (at most the 11 steps of the scale): tints
+ *   (closest first), the base color, then shades (closest first). Near either end of the
+ *   scale the other side gives the colors that side lacks
+ */
+export function generateColorVariations(baseColor: Color, count: number = 5): Color[] {
+  const { steps, baseStep } = generateTonalScale(baseColor);
+  const anchor = steps.findIndex(({ step }) => step === baseStep);
+  const length = Math.min(2 * Math.floor(count / 2) + 1, steps.length);
+  // Centered on the base color, then moved back inside the scale
+  const start = Math.min(Math.max(anchor - Math.floor(length / 2), 0), steps.length - length);
+
+  const tints = steps.slice(start, anchor).reverse();
+  const shades = steps.slice(anchor + 1, start + length);
+  return [...tints.map(({ color }) => color), baseColor, ...shades.map(({ color }) => color)];
 }
@@ -0,0 +1,181 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Color Extraction Library
+ * December 2025
+ *
+ * Single entry point for extracting dominant colors from an image.
+ * Every extraction algorithm implements the ColorExtractor signature and
+ * is registered in COLOR_EXTRACTORS, so callers only choose an algorithm
+ * through ExtractionOptions.algorithm:
+ * - kmeans: k-means clustering (lib/color-algorithms)
+ * - median-cut, octree, mmcq: deterministic quantizers (lib/quantizers)
+ *
+ * When regions of interest are given, each region is rasterized into a
+ * mask and extracted on its own, producing its own set of colors.
+ * Extraction filters (background, neutrals, lightness) are evaluated once
+ * and merged into the mask of every run. In auto color count mode
+ * (k-means only) the number of colors is chosen first, over all the
+ * pixels that will be extracted from, and used for every run.
+ *
+ * Palettes extracted from several images are combined with
+ * combineImagePalettes, either merged into one or kept per image.
+ */
+
+import {
+  Color,
+  ColorCountAnalysis,
+  ExtractionAlgorithm,
+  ExtractionOptions,
+  ExtractionOutput,
+  ExtractionProgressCallback,
+  PaletteMode
+} from '@/types/color.types';
+import { extractColorsKMeans, analyzeColorCount, mergeColors, DEFAULT_EXTRACTION_OPTIONS } from '@/lib/color-algorithms';
+import { extractColorsMedianCut, extractColorsOctree, extractColorsMMCQ } from '@/lib/quantizers';
+import { createRegionMask, isValidRegion } from '@/lib/region-mask';
+import { createExclusionMap, countExclusions, combineMasks } from '@/lib/extraction-filters';
+
+/**
+ * Extracts exactly `options.colorCount` colors from an image. Each color
+ * carries the position of a representative pixel in the image. Progress
+ * may be reported any number of times while the extractor runs.
+ */
+export type ColorExtractor = (
+  imageData: ImageData,
+  options?: ExtractionOptions,
+  onProgress?: ExtractionProgressCallback
+) => Color[];
+
+/**
+ * Registry of available extraction algorithms.
+ */
+export const COLOR_EXTRACTORS: Record<ExtractionAlgorithm, ColorExtractor> = {
+  'kmeans': extractColorsKMeans,
+  'median-cut': extractColorsMedianCut,
+  'octree': extractColorsOctree,
+  'mmcq': extractColorsMMCQ,
+};
+
+// Share of the progress bar taken by the automatic color count
+const AUTO_COUNT_PROGRESS_SHARE = 0.7;
+
+// Pixels inside any of the given masks
+function unionMask(pixelCount: number, masks: Uint8Array[]): Uint8Array {
+  const union = new Uint8Array(pixelCount);
+  masks.forEach(mask => {
+    for (let idx = 0; idx < pixelCount; idx++) {
+      if (mask[idx]) union[idx] = 1;
+    }
+  });
+  return union;
+}
+
+/**
+ * Extracts dominant colors with the algorithm selected in the options.
+ *
+ * Without regions the whole image is used. With regions, colorCount
+ * colors are extracted from each region in turn and concatenated in
+ * region order; every color records the id of its region.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {ExtractionOptions} options - Extraction options (default algorithm: kmeans)
+ * @param {ExtractionProgressCallback} onProgress - Progress callback, ends with 1 (optional)
+ * @returns {ExtractionOutput} Extracted colors with their positions in the image, and filter statistics
+ */
+export function extractColors(
+  imageData: ImageData,
+  options: ExtractionOptions = {},
+  onProgress?: ExtractionProgressCallback
+): ExtractionOutput {
+  const algorithm = options.algorithm ?? DEFAULT_EXTRACTION_OPTIONS.algorithm;
+  const extractor = COLOR_EXTRACTORS[algorithm];
+  const regions = (options.regions ?? []).filter(isValidRegion);
+  const pixelCount = imageData.width * imageData.height;
+
+  const excluded = createExclusionMap(imageData, options.filters);
+  const regionMasks = regions.map(region => createRegionMask(region, imageData.width, imageData.height));
+  const filterStats = countExclusions(imageData, excluded, regionMasks);
+
+  // Choose the number of colors first, then extract with it
+  let colorCountAnalysis: ColorCountAnalysis | undefined;
+  let runOptions = options;
+  let extractionStart = 0;
+
+  if (options.autoColorCount && algorithm === 'kmeans') {
+    const scope = regions.length > 0 ? unionMask(pixelCount, regionMasks) : options.mask;
+    colorCountAnalysis = analyzeColorCount(
+      imageData,
+      { ...options, regions: undefined, mask: combineMasks(pixelCount, scope, excluded) },
+      (progress) => onProgress?.(progress * AUTO_COUNT_PROGRESS_SHARE)
+    );
+    runOptions = { ...options, colorCount: colorCountAnalysis.colorCount };
+    extractionStart = AUTO_COUNT_PROGRESS_SHARE;
+  }
+
+  const reportProgress = (progress: number) =>
+    onProgress?.(extractionStart + progress * (1 - extractionStart));
+
+  if (regions.length === 0) {
+    const mask = combineMasks(pixelCount, options.mask, excluded);
+    const colors = extractor(imageData, { ...runOptions, mask }, reportProgress);
+    onProgress?.(1);
+    return { colors, filterStats, colorCountAnalysis };
+  }
+
+  const colors: Color[] = [];
+
+  regions.forEach((region, regionIdx) => {
+    const mask = combineMasks(pixelCount, regionMasks[regionIdx], excluded);
+    const regionColors = extractor(
+      imageData,
+      { ...runOptions, regions: undefined, mask },
+      (progress) => reportProgress((regionIdx + progress) / regions.length)
+    );
+
+    colors.push(...regionColors.map(color => ({ ...color, regionId: region.id })));
+  });
+
+  onProgress?.(1);
+  return { colors, filterStats, colorCountAnalysis };
+}
+
+/**
+ * Combines the palettes extracted from several images.
+ *
+ * - merged: colors that look alike across images are merged into as many
+ *   colors as the largest palette; each image's colors count in proportion
+ *   to their coverage times the image weight
+ * - per-image: palettes are concatenated in image order
+ *
+ * Every resulting color records the index of the image it came from. A
+ * single palette is returned unchanged.
+ *
+ * @param {Color[][]} palettes - Extracted colors of each image, in image order
+ * @param {number[]} imageWeights - Weight of each image (merged mode)
+ * @param {PaletteMode} mode - How palettes are combined
+ * @param {ExtractionOptions} options - Extraction options used for merging (colorSpace, seed)
+ * @returns {Color[]} Combined palette
+ */
+export function combineImagePalettes(
+  palettes: Color[][],
+  imageWeights: number[],
+  mode: PaletteMode,
+  options: ExtractionOptions = {}
+): Color[] {
+  if (palettes.length <= 1) return palettes[0] ?? [];
+
+  const tagged = palettes.flatMap((palette, sourceIndex) =>
+    palette.map(color => ({ ...color, sourceIndex }))
+  );
+
+  if (mode === 'per-image') return tagged;
+
+  const weights = palettes.flatMap((palette, sourceIndex) =>
+    palette.map(color => (color.weight ?? 1 / palette.length) * imageWeights[sourceIndex])
+  );
+  const colorCount = Math.max(...palettes.map(palette => palette.length));
+
+  return mergeColors(tagged, weights, colorCount, options);
+}
@@ -0,0 +1,118 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Color Format Library
+ * December 2025
+ *
+ * Writes colors as text in any supported color space, for display and
+ * for copying to the clipboard. Every notation except HSV is valid CSS
+ * (CSS Color Level 4 syntax), and translucent colors carry their alpha.
+ * Like CSS, lab() and lch() values are relative to the D50 white point.
+ *
+ * Values are rounded to as many decimals as each space needs for the
+ * 8-bit color to be recovered exactly. Wide-gamut colors are written from
+ * their Display P3 value in the spaces that can hold it (lab, lch, oklab,
+ * oklch, xyz) and from their sRGB fallback in the others; formatDisplayP3
+ * writes the Display P3 value itself.
+ */
+
+import { Color, ColorFormat } from '@/types/color.types';
+import { colorToHex, colorToOklab, colorToXyz } from '@/lib/color-value';
+import { rgbToHsv, rgbToHslPrecise, rgbToHwb, xyzToLabD50, labToLch, oklabToOklch } from '@/lib/color-spaces';
+
+/**
+ * Every supported format, in display order.
+ */
+export const COLOR_FORMATS: ColorFormat[] = ['hex', 'rgb', 'hsl', 'hsv', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'xyz'];
+
+/**
+ * Default format for showing and copying colors.
+ */
+export const DEFAULT_COLOR_FORMAT: ColorFormat = 'hex';
+
+// Round to a number of decimals, dropping trailing zeros
+function round(value: number, decimals: number): number {
+  return Number(value.toFixed(decimals)) || 0;
+}
+
+// Join channel values into a CSS function, adding alpha when translucent
+function cssFunction(name: string, channels: (number | string)[], alpha?: number): string {
+  const alphaPart = alpha !== undefined ? ` / ${round(alpha, 3)}` : '';
+  return `${name}(${channels.join(' ')}${alphaPart})`;
+}
+
+/**
+ * Writes a color in the given format.
+ *
+ * @param {Color} color - Color to write
+ * @param {ColorFormat} format - Notation to use
+ * @returns {string} Color in that notation (e.g. "oklch(62.796% 0.25768 29.234)")
+ */
+export function formatColor(color: Color, format: ColorFormat): string {
+  const { r, g, b, alpha } = color;
+
+  switch (format) {
+    case 'hex':
+      return colorToHex(color);
+
+    case 'rgb':
+      return cssFunction('rgb', [r, g, b], alpha);
+
+    case 'hsl': {
+      const hsl = rgbToHslPrecise(r, g, b);
+      return cssFunction('hsl', [round(hsl.h, 2), `${round(hsl.s, 2)}%`, `${round(hsl.l, 2)}%`], alpha);
+    }
+
+    case 'hsv': {
+      const hsv = rgbToHsv(r, g, b);
+      return cssFunction('hsv', [round(hsv.h, 1), `${round(hsv.s, 1)}%`, `${round(hsv.v, 1)}%`], alpha);
+    }
+
+    case 'hwb': {
+      const hwb = rgbToHwb(r, g, b);
+      return cssFunction('hwb', [round(hwb.h, 1), `${round(hwb.w, 1)}%`, `${round(hwb.b, 1)}%`], alpha);
+    }
+
+    case 'lab': {
+      const { x, y, z } = colorToXyz(color);
+      const lab = xyzToLabD50(x, y, z);
+      return cssFunction('lab', [round(lab.l, 2), round(lab.a, 2), round(lab.b, 2)], alpha);
+    }
+
+    case 'lch': {
+      const { x, y, z } = colorToXyz(color);
+      const lab = xyzToLabD50(x, y, z);
+      const lch = labToLch(lab.l, lab.a, lab.b);
+      return cssFunction('lch', [round(lch.l, 2), round(lch.c, 2), round(lch.h, 2)], alpha);
+    }
+
+    case 'oklab': {
+      const lab = colorToOklab(color);
+      return cssFunction('oklab', [`${round(lab.l * 100, 3)}%`, round(lab.a, 5), round(lab.b, 5)], alpha);
+    }
+
+    case 'oklch': {
+      const lab = colorToOklab(color);
+      const lch = oklabToOklch(lab.l, lab.a, lab.b);
+      return cssFunction('oklch', [`${round(lch.l * 100, 3)}%`, round(lch.c, 5), round(lch.h, 3)], alpha);
+    }
+
+    case 'xyz': {
+      const xyz = colorToXyz(color);
+      return cssFunction('color', ['xyz-d65', round(xyz.x, 5), round(xyz.y, 5), round(xyz.z, 5)], alpha);
+    }
+  }
+}
+
+/**
+ * Writes the Display P3 value of a wide-gamut color.
+ *
+ * @param {Color} color - Color to write
+ * @returns {string | undefined} Color as "color(display-p3 r g b)", or undefined when it fits in sRGB
+ */
+export function formatDisplayP3(color: Color): string | undefined {
+  if (!color.displayP3) return undefined;
+  const { r, g, b } = color.displayP3;
+  return cssFunction('color', ['display-p3', round(r, 4), round(g, 4), round(b, 4)], color.alpha);
+}
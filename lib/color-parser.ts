@@ -0,0 +1,301 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Color Parser Library
+ * December 2025
+ *
+ * Reads colors typed or pasted by the user, in any CSS Color Level 4
+ * syntax:
+ * - HEX: #rgb, #rgba, #rrggbb, #rrggbbaa
+ * - rgb() / rgba(), hsl() / hsla(), hwb()
+ * - lab() and lch() (D50 white point), oklab() and oklch()
+ * - color() with a predefined RGB space (srgb, srgb-linear, display-p3,
+ *   a98-rgb, prophoto-rgb, rec2020) or xyz, xyz-d50, xyz-d65
+ * - Named colors and transparent
+ *
+ * Both the modern space-separated syntax (with "/ alpha") and the legacy
+ * comma-separated syntax of rgb() and hsl() are accepted, as well as
+ * "none" components. Colors outside the sRGB gamut keep their Display P3
+ * value, with a gamut-mapped sRGB fallback.
+ *
+ * Invalid input throws a ColorParseError whose reason tells what is
+ * wrong, so the UI can explain it in the user's language.
+ */
+
+import { Color } from '@/types/color.types';
+import { fromRgb, fromHsl, fromHex, fromOklab, fromXyz, isValidHex } from '@/lib/color-value';
+import {
+  hwbToRgb,
+  labToXyz,
+  lchToLab,
+  predefinedRgbToXyz,
+  xyzD50ToD65,
+  D50_WHITE,
+  PredefinedRgbSpace
+} from '@/lib/color-spaces';
+import { CSS_NAMED_COLORS } from '@/lib/named-colors';
+
+/**
+ * Why a color could not be parsed.
+ * - empty: nothing was typed
+ * - syntax: the text does not look like a color
+ * - invalid-hex: a HEX color with the wrong number of digits or non-hex digits
+ * - unknown-name: a word that is not a CSS named color
+ * - unknown-function: a function that is not a CSS color function
+ * - unknown-space: a color() space that is not supported
+ * - argument-count: a color function with too many or too few values
+ * - invalid-value: a value that is not a number, percentage or angle where one is expected
+ */
+export type ColorParseErrorReason =
+  | 'empty'
+  | 'syntax'
+  | 'invalid-hex'
+  | 'unknown-name'
+  | 'unknown-function'
+  | 'unknown-space'
+  | 'argument-count'
+  | 'invalid-value';
+
+/**
+ * Error thrown by parseColor for input that is not a valid color.
+ *
+ * @property {ColorParseErrorReason} reason - What is wrong with the input
+ * @property {string} detail - The part of the input at fault (e.g. "rgb()" or "12px")
+ */
+export class ColorParseError extends Error {
+  readonly reason: ColorParseErrorReason;
+  readonly detail: string;
+
+  constructor(reason: ColorParseErrorReason, detail: string) {
+    super(`Invalid color (${reason}): ${detail}`);
+    this.name = 'ColorParseError';
+    this.reason = reason;
+    this.detail = detail;
+  }
+}
+
+// Arguments of a color function: its components and optional alpha
+interface ColorArguments {
+  name: string;
+  components: string[];
+  alpha?: string;
+  legacy: boolean;
+}
+
+// Number with an optional unit (percentage or angle)
+const NUMBER_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/;
+
+// Read a number and its unit, rejecting anything else
+function readNumber(token: string): { value: number; unit: string } {
+  const match = NUMBER_PATTERN.exec(token);
+  if (!match) {
+    throw new ColorParseError('invalid-value', token);
+  }
+  return { value: parseFloat(match[1]), unit: match[2] ?? '' };
+}
+
+// Read a number or a percentage of `percentRef`; "none" counts as 0
+function readChannel(token: string, percentRef: number): number {
+  if (token === 'none') return 0;
+
+  const { value, unit } = readNumber(token);
+  if (unit === '%') return (value / 100) * percentRef;
+  if (unit) throw new ColorParseError('invalid-value', token);
+  return value;
+}
+
+// Read a hue in degrees from a number or an angle; "none" counts as 0
+function readHue(token: string): number {
+  if (token === 'none') return 0;
+
+  const { value, unit } = readNumber(token);
+  switch (unit) {
+    case '':
+    case 'deg':
+      return value;
+    case 'rad':
+      return (value * 180) / Math.PI;
+    case 'grad':
+      return value * 0.9;
+    case 'turn':
+      return value * 360;
+    default:
+      throw new ColorParseError('invalid-value', token);
+  }
+}
+
+// Read an optional alpha, given as a number (0-1) or a percentage
+function readAlpha(token?: string): number | undefined {
+  return token === undefined ? undefined : readChannel(token, 1);
+}
+
+// Check the number of components of a color function
+function expectComponents(args: ColorArguments, count: number): string[] {
+  if (args.components.length !== count) {
+    throw new ColorParseError('argument-count', `${args.name}()`);
+  }
+  return args.components;
+}
+
+// Only rgb() and hsl() have a legacy comma-separated syntax
+function rejectLegacy(args: ColorArguments): void {
+  if (args.legacy) {
+    throw new ColorParseError('syntax', `${args.name}()`);
+  }
+}
+
+// Split the body of a color function into components and alpha
+function splitArguments(name: string, body: string): ColorArguments {
+  if (body.includes(',')) {
+    const parts = body.split(',').map(part => part.trim());
+    if (parts.length < 3 || parts.length > 4 || parts.some(part => part === '' || /\s/.test(part))) {
+      throw new ColorParseError('argument-count', `${name}()`);
+    }
+    return { name, components: parts.slice(0, 3), alpha: parts[3], legacy: true };
+  }
+
+  const [main, alpha, ...rest] = body.split('/');
+  if (rest.length > 0 || (alpha !== undefined && alpha.trim().split(/\s+/).length !== 1)) {
+    throw new ColorParseError('syntax', `${name}()`);
+  }
+
+  const components = main.trim().split(/\s+/).filter(Boolean);
+  return { name, components, alpha: alpha?.trim(), legacy: false };
+}
+
+// Clamp lightness and chroma the way CSS does before converting
+const clampRange = (value: number, min: number, max = Infinity) => Math.max(min, Math.min(max, value));
+
+// RGB spaces accepted by color()
+const PREDEFINED_SPACES: PredefinedRgbSpace[] = ['srgb', 'srgb-linear', 'display-p3', 'a98-rgb', 'prophoto-rgb', 'rec2020'];
+
+// Parse color(space c1 c2 c3 [/ alpha])
+function parseColorFunction(args: ColorArguments): Color {
+  rejectLegacy(args);
+  const [space, ...channels] = expectComponents(args, 4);
+  const [c1, c2, c3] = channels.map(token => readChannel(token, 1));
+  const alpha = readAlpha(args.alpha);
+
+  if (space === 'srgb') {
+    return fromRgb(c1 * 255, c2 * 255, c3 * 255, alpha);
+  }
+
+  let xyz: { x: number; y: number; z: number };
+  if ((PREDEFINED_SPACES as string[]).includes(space)) {
+    xyz = predefinedRgbToXyz(space as PredefinedRgbSpace, c1, c2, c3);
+  } else if (space === 'xyz' || space === 'xyz-d65') {
+    xyz = { x: c1, y: c2, z: c3 };
+  } else if (space === 'xyz-d50') {
+    xyz = xyzD50ToD65(c1, c2, c3);
+  } else {
+    throw new ColorParseError('unknown-space', space);
+  }
+
+  return fromXyz(xyz.x, xyz.y, xyz.z, alpha);
+}
+
+// Create a color from CIELAB values relative to the D50 white point, as CSS uses
+function fromLabD50(L: number, a: number, b: number, alpha?: number): Color {
+  const d50 = labToXyz(L, a, b, D50_WHITE);
+  const { x, y, z } = xyzD50ToD65(d50.x, d50.y, d50.z);
+  return fromXyz(x, y, z, alpha);
+}
+
+/**
+ * Registry of CSS color functions, by name.
+ */
+const COLOR_FUNCTIONS: Record<string, (args: ColorArguments) => Color> = {
+  rgb: (args) => {
+    const [r, g, b] = expectComponents(args, 3).map(token => readChannel(token, 255));
+    return fromRgb(r, g, b, readAlpha(args.alpha));
+  },
+
+  hsl: (args) => {
+    const [h, s, l] = expectComponents(args, 3);
+    return fromHsl(readHue(h), readChannel(s, 100), readChannel(l, 100), readAlpha(args.alpha));
+  },
+
+  hwb: (args) => {
+    rejectLegacy(args);
+    const [h, w, b] = expectComponents(args, 3);
+    const rgb = hwbToRgb(readHue(h), readChannel(w, 100), readChannel(b, 100));
+    return fromRgb(rgb.r, rgb.g, rgb.b, readAlpha(args.alpha));
+  },
+
+  lab: (args) => {
+    rejectLegacy(args);
+    const [l, a, b] = expectComponents(args, 3);
+    return fromLabD50(clampRange(readChannel(l, 100), 0, 100), readChannel(a, 125), readChannel(b, 125), readAlpha(args.alpha));
+  },
+
+  lch: (args) => {
+    rejectLegacy(args);
+    const [l, c, h] = expectComponents(args, 3);
+    const lab = lchToLab(clampRange(readChannel(l, 100), 0, 100), clampRange(readChannel(c, 150), 0), readHue(h));
+    return fromLabD50(lab.l, lab.a, lab.b, readAlpha(args.alpha));
+  },
+
+  oklab: (args) => {
+    rejectLegacy(args);
+    const [l, a, b] = expectComponents(args, 3);
+    return fromOklab(clampRange(readChannel(l, 1), 0, 1), readChannel(a, 0.4), readChannel(b, 0.4), readAlpha(args.alpha));
+  },
+
+  oklch: (args) => {
+    rejectLegacy(args);
+    const [l, c, h] = expectComponents(args, 3);
+    const lab = lchToLab(clampRange(readChannel(l, 1), 0, 1), clampRange(readChannel(c, 0.4), 0), readHue(h));
+    return fromOklab(lab.l, lab.a, lab.b, readAlpha(args.alpha));
+  },
+
+  color: parseColorFunction,
+};
+
+// rgba() and hsla() are aliases of rgb() and hsl()
+COLOR_FUNCTIONS.rgba = COLOR_FUNCTIONS.rgb;
+COLOR_FUNCTIONS.hsla = COLOR_FUNCTIONS.hsl;
+
+/**
+ * Parses a CSS color string into a color.
+ *
+ * Parsing is case-insensitive and ignores surrounding whitespace. HEX
+ * colors may omit the leading "#".
+ *
+ * @param {string} input - Color as typed by the user (e.g. "#ff5733", "oklch(70% 0.15 40)", "tomato")
+ * @returns {Color} Parsed color (translucent when an alpha below 1 is given)
+ * @throws {ColorParseError} If the input is not a valid color
+ */
+export function parseColor(input: string): Color {
+  const text = input.trim().toLowerCase();
+  if (!text) {
+    throw new ColorParseError('empty', input);
+  }
+
+  if (text.startsWith('#')) {
+    if (!isValidHex(text)) throw new ColorParseError('invalid-hex', input.trim());
+    return fromHex(text);
+  }
+
+  if (text === 'transparent') {
+    return fromRgb(0, 0, 0, 0);
+  }
+
+  if (Object.prototype.hasOwnProperty.call(CSS_NAMED_COLORS, text)) {
+    return fromHex(CSS_NAMED_COLORS[text]);
+  }
+
+  const match = /^([a-z-]+)\(([\s\S]*)\)$/.exec(text);
+  if (!match) {
+    if (isValidHex(text)) return fromHex(text);
+    if (/^[a-z]+$/.test(text)) throw new ColorParseError('unknown-name', input.trim());
+    throw new ColorParseError('syntax', input.trim());
+  }
+
+  const [, name, body] = match;
+  if (!Object.prototype.hasOwnProperty.call(COLOR_FUNCTIONS, name)) {
+    throw new ColorParseError('unknown-function', `${name}()`);
+  }
+
+  return COLOR_FUNCTIONS[name](splitArguments(name, body));
+}
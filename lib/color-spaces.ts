@@ -0,0 +1,665 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Color Spaces Library
+ * December 2025
+ *
+ * Conversions between sRGB and other color spaces:
+ * - sRGB ↔ linear sRGB (gamma transfer function)
+ * - sRGB ↔ CIE XYZ (D65 white point, Y 0-1), D65 ↔ D50 adaptation
+ * - CSS predefined RGB spaces (display-p3, rec2020, ...) → CIE XYZ,
+ *   CIE XYZ → Display P3
+ * - Gamut mapping of OKLCH colors into sRGB (CSS Color 4 algorithm)
+ * - sRGB ↔ OKLab and OKLCH (Björn Ottosson, 2020)
+ * - sRGB ↔ CIELAB and CIELCh (D65 white point)
+ * - sRGB ↔ HSV and HWB
+ * - CIEDE2000 color difference (ΔE00)
+ *
+ * Perceptual spaces are used wherever "how different do these colors look"
+ * matters, e.g. clustering pixels during color extraction.
+ *
+ * Every conversion to another space returns unrounded values, and every
+ * conversion back to sRGB rounds to 8-bit channels, so an 8-bit color
+ * survives a round trip through any space unchanged. Polar spaces report
+ * hue in degrees (0-360) and use a hue of 0 for achromatic colors.
+ */
+
+// D65 reference white (CIE 1931 2°), Y normalized to 1
+const D65 = { x: 0.95047, y: 1.0, z: 1.08883 };
+
+/**
+ * D50 reference white (CIE 1931 2°), used by CSS lab() and lch().
+ */
+export const D50_WHITE = { x: 0.96422, y: 1.0, z: 0.82521 };
+
+/**
+ * Converts an 8-bit sRGB channel to linear light.
+ *
+ * @param {number} channel - sRGB channel value (0-255)
+ * @returns {number} Linear channel value (0-1)
+ */
+export function srgbToLinear(channel: number): number {
+  if (Number.isInteger(channel) && channel >= 0 && channel <= 255) {
+    return LINEAR_TABLE[channel];
+  }
+  return computeLinear(channel);
+}
+
+function computeLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+// Precomputed linear values of every 8-bit channel (pixels are always integers)
+const LINEAR_TABLE = Float64Array.from({ length: 256 }, (_, channel) => computeLinear(channel));
+
+/**
+ * Converts a linear light channel back to 8-bit sRGB.
+ *
+ * @param {number} value - Linear channel value (0-1, clamped)
+ * @returns {number} sRGB channel value (0-255, rounded)
+ */
+export function linearToSrgb(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return Math.round(c * 255);
+}
+
+// Apply the sRGB transfer function to a linear value, keeping its sign and
+// without clamping or rounding (0-1 inside the gamut). Display P3 shares it.
+export function encodeSrgb(value: number): number {
+  const v = Math.abs(value);
+  return Math.sign(value) * (v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055);
+}
+
+// Chroma below which a color counts as achromatic (its hue is meaningless)
+const OKLAB_ACHROMATIC = 1e-4;
+const LAB_ACHROMATIC = 1e-2;
+
+// Convert rectangular a/b coordinates to chroma and hue (degrees)
+function toPolar(a: number, b: number, achromatic: number): { c: number; h: number } {
+  const c = Math.hypot(a, b);
+  if (c < achromatic) return { c, h: 0 };
+
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return { c, h: h < 0 ? h + 360 : h };
+}
+
+// Convert chroma and hue (degrees) back to a/b coordinates
+function fromPolar(c: number, h: number): { a: number; b: number } {
+  const rad = (h * Math.PI) / 180;
+  return { a: c * Math.cos(rad), b: c * Math.sin(rad) };
+}
+
+/**
+ * Converts sRGB to CIE XYZ (D65).
+ *
+ * @param {number} r - Red component (0-255)
+ * @param {number} g - Green component (0-255)
+ * @param {number} b - Blue component (0-255)
+ * @returns {{x: number, y: number, z: number}} XYZ values (Y 0-1 for sRGB white)
+ */
+export function rgbToXyz(r: number, g: number, b: number): { x: number; y: number; z: number } {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  return {
+    x: 0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb,
+    y: 0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb,
+    z: 0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb,
+  };
+}
+
+/**
+ * Converts CIE XYZ (D65) to sRGB.
+ *
+ * @param {number} x - X value
+ * @param {number} y - Y value (0-1)
+ * @param {number} z - Z value
+ * @returns {{r: number, g: number, b: number}} RGB values (0-255, out-of-gamut values clamped)
+ */
+export function xyzToRgb(x: number, y: number, z: number): { r: number; g: number; b: number } {
+  const [lr, lg, lb] = xyzToLinearSrgb(x, y, z);
+  return { r: linearToSrgb(lr), g: linearToSrgb(lg), b: linearToSrgb(lb) };
+}
+
+// Convert CIE XYZ (D65) to linear sRGB, without clamping (wide-gamut colors fall outside 0-1)
+export function xyzToLinearSrgb(x: number, y: number, z: number): number[] {
+  return [
+    3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+    -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+    0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+  ];
+}
+
+// Convert linear sRGB (possibly outside 0-1) to CIE XYZ (D65)
+export function linearSrgbToXyz(lr: number, lg: number, lb: number): { x: number; y: number; z: number } {
+  return {
+    x: 0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb,
+    y: 0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb,
+    z: 0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb,
+  };
+}
+
+// Linear channels this far outside 0-1 still count as inside the gamut (rounding noise)
+const GAMUT_EPSILON = 1e-4;
+
+/**
+ * Whether linear sRGB channels describe a color inside the sRGB gamut.
+ *
+ * @param {number[]} linear - Linear sRGB channels, as [r, g, b]
+ * @returns {boolean} True if every channel is within 0-1
+ */
+export function isInSrgbGamut(linear: number[]): boolean {
+  return linear.every(c => c >= -GAMUT_EPSILON && c <= 1 + GAMUT_EPSILON);
+}
+
+// Bradford chromatic adaptation matrices between D50 and D65
+const D50_TO_D65 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+const D65_TO_D50 = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+
+// Multiply a 3x3 matrix by a vector
+function multiply(matrix: number[][], [v0, v1, v2]: number[]): number[] {
+  return matrix.map(row => row[0] * v0 + row[1] * v1 + row[2] * v2);
+}
+
+// Adapt XYZ values from the D50 to the D65 white point (Bradford)
+export function xyzD50ToD65(x: number, y: number, z: number): { x: number; y: number; z: number } {
+  const [x65, y65, z65] = multiply(D50_TO_D65, [x, y, z]);
+  return { x: x65, y: y65, z: z65 };
+}
+
+// Adapt XYZ values from the D65 to the D50 white point (Bradford)
+export function xyzD65ToD50(x: number, y: number, z: number): { x: number; y: number; z: number } {
+  const [x50, y50, z50] = multiply(D65_TO_D50, [x, y, z]);
+  return { x: x50, y: y50, z: z50 };
+}
+
+/**
+ * RGB spaces predefined by CSS Color 4 for the color() function.
+ */
+export type PredefinedRgbSpace = 'srgb' | 'srgb-linear' | 'display-p3' | 'a98-rgb' | 'prophoto-rgb' | 'rec2020';
+
+// Gamma-encoded channel (0-1) to linear light, per space; negative values are mirrored
+const signed = (transfer: (c: number) => number) => (c: number) => Math.sign(c) * transfer(Math.abs(c));
+const srgbTransfer = signed(c => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)));
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+// Linear RGB to XYZ matrix and transfer function of each predefined space
+const PREDEFINED_SPACES: Record<PredefinedRgbSpace, { toXyz: number[][]; toLinear: (c: number) => number; d50?: boolean }> = {
+  'srgb': {
+    toXyz: [
+      [0.4124564, 0.3575761, 0.1804375],
+      [0.2126729, 0.7151522, 0.072175],
+      [0.0193339, 0.119192, 0.9503041],
+    ],
+    toLinear: srgbTransfer,
+  },
+  'srgb-linear': {
+    toXyz: [
+      [0.4124564, 0.3575761, 0.1804375],
+      [0.2126729, 0.7151522, 0.072175],
+      [0.0193339, 0.119192, 0.9503041],
+    ],
+    toLinear: c => c,
+  },
+  'display-p3': {
+    toXyz: [
+      [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+      [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+      [0, 0.04511338185890264, 1.043944368900976],
+    ],
+    toLinear: srgbTransfer,
+  },
+  'a98-rgb': {
+    toXyz: [
+      [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+      [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+      [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+    ],
+    toLinear: signed(c => Math.pow(c, 563 / 256)),
+  },
+  'prophoto-rgb': {
+    toXyz: [
+      [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+      [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+      [0, 0, 0.8251046025104601],
+    ],
+    toLinear: signed(c => (c <= 16 / 512 ? c / 16 : Math.pow(c, 1.8))),
+    d50: true,
+  },
+  'rec2020': {
+    toXyz: [
+      [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+      [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+      [0, 0.028072693049087428, 1.060985057710791],
+    ],
+    toLinear: signed(c =>
+      c < REC2020_BETA * 4.5 ? c / 4.5 : Math.pow((c + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45)
+    ),
+  },
+};
+
+/**
+ * Converts a color in one of the CSS predefined RGB spaces to CIE XYZ (D65).
+ *
+ * @param {PredefinedRgbSpace} space - RGB space of the color
+ * @param {number} r - Red component (0-1, may be out of range for wide-gamut colors)
+ * @param {number} g - Green component (0-1)
+ * @param {number} b - Blue component (0-1)
+ * @returns {{x: number, y: number, z: number}} XYZ values (D65)
+ */
+export function predefinedRgbToXyz(
+  space: PredefinedRgbSpace,
+  r: number,
+  g: number,
+  b: number
+): { x: number; y: number; z: number } {
+  const { toXyz, toLinear, d50 } = PREDEFINED_SPACES[space];
+  const [x, y, z] = multiply(toXyz, [r, g, b].map(toLinear));
+  return d50 ? xyzD50ToD65(x, y, z) : { x, y, z };
+}
+
+// Linear Display P3 from CIE XYZ (D65)
+const XYZ_TO_DISPLAY_P3 = [
+  [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+  [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+  [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+];
+
+/**
+ * Converts CIE XYZ (D65) to Display P3.
+ *
+ * @param {number} x - X value
+ * @param {number} y - Y value (0-1)
+ * @param {number} z - Z value
+ * @returns {{r: number, g: number, b: number}} Display P3 channels (0-1 inside the P3 gamut, not clamped)
+ */
+export function xyzToDisplayP3(x: number, y: number, z: number): { r: number; g: number; b: number } {
+  const [r, g, b] = multiply(XYZ_TO_DISPLAY_P3, [x, y, z]).map(encodeSrgb);
+  return { r, g, b };
+}
+
+// Convert RGB to OKLab (L: 0-1, a/b: roughly -0.4..0.4)
+export function rgbToOklab(r: number, g: number, b: number): { l: number; a: number; b: number } {
+  return linearSrgbToOklab(srgbToLinear(r), srgbToLinear(g), srgbToLinear(b));
+}
+
+// Convert linear sRGB (possibly outside 0-1) to OKLab
+export function linearSrgbToOklab(lr: number, lg: number, lb: number): { l: number; a: number; b: number } {
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+// Convert OKLab to RGB (out-of-gamut values are clamped)
+export function oklabToRgb(L: number, a: number, b: number): { r: number; g: number; b: number } {
+  const [lr, lg, lb] = oklabToLinearSrgb(L, a, b);
+  return { r: linearToSrgb(lr), g: linearToSrgb(lg), b: linearToSrgb(lb) };
+}
+
+// Convert OKLab to linear sRGB, without clamping (wide-gamut colors fall outside 0-1)
+export function oklabToLinearSrgb(L: number, a: number, b: number): number[] {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+// Convert RGB to OKLCH (L: 0-1, C: 0 to roughly 0.37, H: 0-360)
+export function rgbToOklch(r: number, g: number, b: number): { l: number; c: number; h: number } {
+  const lab = rgbToOklab(r, g, b);
+  return oklabToOklch(lab.l, lab.a, lab.b);
+}
+
+// Convert OKLab to OKLCH (H: 0-360)
+export function oklabToOklch(L: number, a: number, b: number): { l: number; c: number; h: number } {
+  return { l: L, ...toPolar(a, b, OKLAB_ACHROMATIC) };
+}
+
+// Convert OKLCH to RGB (out-of-gamut values are clamped)
+export function oklchToRgb(L: number, C: number, H: number): { r: number; g: number; b: number } {
+  const { a, b } = fromPolar(C, H);
+  return oklabToRgb(L, a, b);
+}
+
+// Largest OKLab difference between a color and its clipped version that
+// goes unnoticed, and the chroma precision of the gamut mapping search
+const GAMUT_JND = 0.02;
+const GAMUT_CHROMA_PRECISION = 0.0001;
+
+/**
+ * Maps an OKLCH color into the sRGB gamut.
+ *
+ * Follows the CSS Color 4 gamut mapping algorithm: lightness and hue are
+ * kept and chroma is reduced (binary search) until clipping the color to
+ * sRGB no longer makes a noticeable difference.
+ *
+ * @param {number} L - OKLCH lightness (0-1)
+ * @param {number} C - OKLCH chroma
+ * @param {number} H - OKLCH hue in degrees
+ * @returns {{r: number, g: number, b: number}} Closest displayable sRGB color (0-255)
+ */
+export function gamutMapOklch(L: number, C: number, H: number): { r: number; g: number; b: number } {
+  if (L >= 1) return { r: 255, g: 255, b: 255 };
+  if (L <= 0) return { r: 0, g: 0, b: 0 };
+
+  const linearAt = (chroma: number) => {
+    const { a, b } = fromPolar(chroma, H);
+    return oklabToLinearSrgb(L, a, b);
+  };
+  const clip = (linear: number[]) => linear.map(c => Math.max(0, Math.min(1, c)));
+  const toRgb = (linear: number[]) => {
+    const [r, g, b] = clip(linear).map(linearToSrgb);
+    return { r, g, b };
+  };
+  // OKLab difference between a color and its clipped version
+  const clipError = (linear: number[]) => {
+    const [cr, cg, cb] = clip(linear);
+    const clipped = linearSrgbToOklab(cr, cg, cb);
+    const original = linearSrgbToOklab(linear[0], linear[1], linear[2]);
+    return Math.hypot(clipped.l - original.l, clipped.a - original.a, clipped.b - original.b);
+  };
+
+  let current = linearAt(C);
+  if (isInSrgbGamut(current) || clipError(current) < GAMUT_JND) return toRgb(current);
+
+  let min = 0;
+  let max = C;
+  let minInGamut = true;
+
+  while (max - min > GAMUT_CHROMA_PRECISION) {
+    const chroma = (min + max) / 2;
+    current = linearAt(chroma);
+
+    if (minInGamut && isInSrgbGamut(current)) {
+      min = chroma;
+      continue;
+    }
+
+    const error = clipError(current);
+    if (error < GAMUT_JND) {
+      if (GAMUT_JND - error < GAMUT_CHROMA_PRECISION) break;
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return toRgb(current);
+}
+
+// CIELAB companding function
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+// Inverse of labF
+function labFInverse(t: number): number {
+  return t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27);
+}
+
+// Convert CIE XYZ to CIELAB (L: 0-100, a/b: roughly -128..127), relative to a white point (D65 by default)
+export function xyzToLab(x: number, y: number, z: number, white = D65): { l: number; a: number; b: number } {
+  const fx = labF(x / white.x);
+  const fy = labF(y / white.y);
+  const fz = labF(z / white.z);
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+}
+
+// Convert CIELAB to CIE XYZ, relative to a white point (D65 by default)
+export function labToXyz(L: number, a: number, b: number, white = D65): { x: number; y: number; z: number } {
+  const fy = (L + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  return {
+    x: labFInverse(fx) * white.x,
+    y: labFInverse(fy) * white.y,
+    z: labFInverse(fz) * white.z,
+  };
+}
+
+// Convert RGB to CIELAB (L: 0-100, a/b: roughly -128..127)
+export function rgbToLab(r: number, g: number, b: number): { l: number; a: number; b: number } {
+  const { x, y, z } = rgbToXyz(r, g, b);
+  return xyzToLab(x, y, z);
+}
+
+// Convert CIELAB to RGB (out-of-gamut values are clamped)
+export function labToRgb(L: number, a: number, b: number): { r: number; g: number; b: number } {
+  const { x, y, z } = labToXyz(L, a, b);
+  return xyzToRgb(x, y, z);
+}
+
+// Convert RGB to CIELAB relative to D50, as used by CSS lab() and lch()
+export function rgbToLabD50(r: number, g: number, b: number): { l: number; a: number; b: number } {
+  const { x, y, z } = rgbToXyz(r, g, b);
+  return xyzToLabD50(x, y, z);
+}
+
+// Convert CIE XYZ (D65) to CIELAB relative to D50
+export function xyzToLabD50(x: number, y: number, z: number): { l: number; a: number; b: number } {
+  const d50 = xyzD65ToD50(x, y, z);
+  return xyzToLab(d50.x, d50.y, d50.z, D50_WHITE);
+}
+
+// Convert CIELAB relative to D50 to RGB (out-of-gamut values are clamped)
+export function labD50ToRgb(L: number, a: number, b: number): { r: number; g: number; b: number } {
+  const xyz = labToXyz(L, a, b, D50_WHITE);
+  const { x, y, z } = xyzD50ToD65(xyz.x, xyz.y, xyz.z);
+  return xyzToRgb(x, y, z);
+}
+
+// Convert CIELAB to CIELCh (C: 0 to roughly 134, H: 0-360), for any white point
+export function labToLch(L: number, a: number, b: number): { l: number; c: number; h: number } {
+  return { l: L, ...toPolar(a, b, LAB_ACHROMATIC) };
+}
+
+// Convert CIELCh to CIELAB, for any white point (also OKLCH to OKLab)
+export function lchToLab(L: number, C: number, H: number): { l: number; a: number; b: number } {
+  return { l: L, ...fromPolar(C, H) };
+}
+
+// Convert RGB to CIELCh (L: 0-100, C: 0 to roughly 134, H: 0-360)
+export function rgbToLch(r: number, g: number, b: number): { l: number; c: number; h: number } {
+  const lab = rgbToLab(r, g, b);
+  return labToLch(lab.l, lab.a, lab.b);
+}
+
+// Convert CIELCh to RGB (out-of-gamut values are clamped)
+export function lchToRgb(L: number, C: number, H: number): { r: number; g: number; b: number } {
+  const lab = lchToLab(L, C, H);
+  return labToRgb(lab.l, lab.a, lab.b);
+}
+
+/**
+ * Converts sRGB to HSV (Hue, Saturation, Value).
+ *
+ * @param {number} r - Red component (0-255)
+ * @param {number} g - Green component (0-255)
+ * @param {number} b - Blue component (0-255)
+ * @returns {{h: number, s: number, v: number}} HSV values where h is 0-360, s is 0-100, v is 0-100
+ */
+export function rgbToHsv(r: number, g: number, b: number): { h: number; s: number; v: number } {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const d = max - min;
+
+  let h = 0;
+  if (d > 0) {
+    if (max === r) h = ((g - b) / d + 6) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+  }
+
+  return {
+    h: h * 60,
+    s: max === 0 ? 0 : (d / max) * 100,
+    v: (max / 255) * 100,
+  };
+}
+
+// Convert HSV to RGB (h: 0-360, s/v: 0-100)
+export function hsvToRgb(h: number, s: number, v: number): { r: number; g: number; b: number } {
+  const hue = (((h % 360) + 360) % 360) / 60;
+  const sat = Math.max(0, Math.min(100, s)) / 100;
+  const val = Math.max(0, Math.min(100, v)) / 100;
+
+  const channel = (n: number) => {
+    const k = (n + hue) % 6;
+    return Math.round((val - val * sat * Math.max(0, Math.min(k, 4 - k, 1))) * 255);
+  };
+
+  return { r: channel(5), g: channel(3), b: channel(1) };
+}
+
+/**
+ * Converts sRGB to HSL without rounding (Color.h/s/l hold rounded values).
+ *
+ * @param {number} r - Red component (0-255)
+ * @param {number} g - Green component (0-255)
+ * @param {number} b - Blue component (0-255)
+ * @returns {{h: number, s: number, l: number}} HSL values where h is 0-360, s is 0-100, l is 0-100
+ */
+export function rgbToHslPrecise(r: number, g: number, b: number): { h: number; s: number; l: number } {
+  const { h } = rgbToHsv(r, g, b);
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const l = (max + min) / 2;
+  const s = max === min ? 0 : (max - min) / (1 - Math.abs(2 * l - 1));
+
+  return { h, s: s * 100, l: l * 100 };
+}
+
+// Convert RGB to HWB (h: 0-360, whiteness/blackness: 0-100)
+export function rgbToHwb(r: number, g: number, b: number): { h: number; w: number; b: number } {
+  const { h } = rgbToHsv(r, g, b);
+  return {
+    h,
+    w: (Math.min(r, g, b) / 255) * 100,
+    b: (1 - Math.max(r, g, b) / 255) * 100,
+  };
+}
+
+// Convert HWB to RGB; whiteness and blackness adding up to 100 or more give a grey
+export function hwbToRgb(h: number, w: number, bl: number): { r: number; g: number; b: number } {
+  const white = Math.max(0, Math.min(100, w)) / 100;
+  const black = Math.max(0, Math.min(100, bl)) / 100;
+
+  if (white + black >= 1) {
+    const grey = Math.round((white / (white + black)) * 255);
+    return { r: grey, g: grey, b: grey };
+  }
+
+  const v = 1 - black;
+  return hsvToRgb(h, (1 - white / v) * 100, v * 100);
+}
+
+/**
+ * Computes the CIEDE2000 color difference between two CIELAB colors.
+ *
+ * ΔE00 corrects the remaining non-uniformities of CIELAB (blue hue
+ * shift, lightness and chroma weighting). A value around 2.3 is a
+ * just-noticeable difference.
+ *
+ * @param {number[]} lab1 - First color as [L, a, b]
+ * @param {number[]} lab2 - Second color as [L, a, b]
+ * @returns {number} ΔE00 difference (0 = identical)
+ */
+export function deltaE2000(lab1: number[], lab2: number[]): number {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+  const rad = Math.PI / 180;
+
+  const C1 = Math.sqrt(a1 * a1 + b1 * b1);
+  const C2 = Math.sqrt(a2 * a2 + b2 * b2);
+  const Cbar7 = Math.pow((C1 + C2) / 2, 7);
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + Math.pow(25, 7))));
+
+  const a1p = (1 + G) * a1;
+  const a2p = (1 + G) * a2;
+  const C1p = Math.sqrt(a1p * a1p + b1 * b1);
+  const C2p = Math.sqrt(a2p * a2p + b2 * b2);
+
+  const hueAngle = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hueAngle(b1, a1p);
+  const h2p = hueAngle(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) > 180) {
+      hbarp = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+    } else {
+      hbarp = (h1p + h2p) / 2;
+    }
+  }
+
+  const T =
+    1 -
+    0.17 * Math.cos((hbarp - 30) * rad) +
+    0.24 * Math.cos(2 * hbarp * rad) +
+    0.32 * Math.cos((3 * hbarp + 6) * rad) -
+    0.2 * Math.cos((4 * hbarp - 63) * rad);
+
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Cbarp7 = Math.pow(Cbarp, 7);
+  const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + Math.pow(25, 7)));
+  const Lbarp50 = (Lbarp - 50) * (Lbarp - 50);
+  const Sl = 1 + (0.015 * Lbarp50) / Math.sqrt(20 + Lbarp50);
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  const lTerm = dLp / Sl;
+  const cTerm = dCp / Sc;
+  const hTerm = dHp / Sh;
+
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + Rt * cTerm * hTerm);
+}
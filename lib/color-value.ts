@@ -0,0 +1,380 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Color Value Library
+ * December 2025
+ *
+ * The one place where Color objects are built. Every color value is
+ * created through a constructor, so all of its representations always
+ * agree and use the same units:
+ * - r, g, b: integers 0-255
+ * - h: integer degrees 0-360, s and l: integer percentages 0-100
+ * - hex: lowercase "#rrggbb"
+ * - alpha: 0-1 with two decimals, omitted for fully opaque colors
+ * - displayP3: 0-1 with four decimals, only for colors outside sRGB
+ *
+ * Constructors (fromRgb, fromHsl, fromHex) clamp out-of-range values and
+ * reject values that are not numbers. Wide-gamut constructors (fromXyz,
+ * fromOklab, fromDisplayP3) keep colors outside sRGB as Display P3 and
+ * store their gamut-mapped sRGB fallback in r, g, b and hex. Derivation
+ * helpers (withRgb, withHsl, withAlpha) never modify a color: they return
+ * a new one that keeps the original's position, weight, region and
+ * source image.
+ */
+
+import { Color } from '@/types/color.types';
+import {
+  encodeSrgb,
+  gamutMapOklch,
+  linearSrgbToOklab,
+  linearSrgbToXyz,
+  oklabToLinearSrgb,
+  oklabToOklch,
+  predefinedRgbToXyz,
+  rgbToOklab,
+  rgbToXyz,
+  xyzToDisplayP3,
+  xyzToLinearSrgb
+} from '@/lib/color-spaces';
+
+// Color values that are not finite numbers cannot be clamped into range
+function assertFinite(values: number[], notation: string): void {
+  if (values.some(value => !Number.isFinite(value))) {
+    throw new Error(`Invalid ${notation} color: ${values.join(', ')}`);
+  }
+}
+
+// Keep a value within [min, max]
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Round alpha to two decimals, dropping it when the color is fully opaque
+function normalizeAlpha(alpha?: number): number | undefined {
+  if (alpha === undefined) return undefined;
+  assertFinite([alpha], 'alpha');
+  const rounded = Math.round(clamp(alpha, 0, 1) * 100) / 100;
+  return rounded < 1 ? rounded : undefined;
+}
+
+/**
+ * Converts RGB color values to HSL (Hue, Saturation, Lightness).
+ *
+ * HSL is more intuitive for color manipulation as it separates
+ * hue (color) from saturation and lightness, making it easier
+ * to generate color variations.
+ *
+ * @param {number} r - Red component (0-255)
+ * @param {number} g - Green component (0-255)
+ * @param {number} b - Blue component (0-255)
+ * @returns {{h: number, s: number, l: number}} HSL values where h is 0-360, s is 0-100, l is 0-100 (rounded)
+ */
+export function rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  let h = 0;
+  let s = 0;
+  const l = (max + min) / 2;
+
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+    switch (max) {
+      case r:
+        h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+        break;
+      case g:
+        h = ((b - r) / d + 2) / 6;
+        break;
+      case b:
+        h = ((r - g) / d + 4) / 6;
+        break;
+    }
+  }
+
+  return {
+    h: Math.round(h * 360),
+    s: Math.round(s * 100),
+    l: Math.round(l * 100),
+  };
+}
+
+// Convert HSL (h: 0-360, s/l: 0-100) to RGB
+export function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
+  h /= 360;
+  s /= 100;
+  l /= 100;
+
+  let r, g, b;
+
+  if (s === 0) {
+    r = g = b = l;
+  } else {
+    const hue2rgb = (p: number, q: number, t: number) => {
+      if (t < 0) t += 1;
+      if (t > 1) t -= 1;
+      if (t < 1 / 6) return p + (q - p) * 6 * t;
+      if (t < 1 / 2) return q;
+      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+      return p;
+    };
+
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+
+    r = hue2rgb(p, q, h + 1 / 3);
+    g = hue2rgb(p, q, h);
+    b = hue2rgb(p, q, h - 1 / 3);
+  }
+
+  return {
+    r: Math.round(r * 255),
+    g: Math.round(g * 255),
+    b: Math.round(b * 255),
+  };
+}
+
+// Convert RGB to HEX
+export function rgbToHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(x => x.toString(16).padStart(2, '0')).join('');
+}
+
+// Convert a color to HEX, using 8-digit #rrggbbaa when it is translucent
+export function colorToHex(color: Color): string {
+  if (color.alpha === undefined) return color.hex;
+  return color.hex + Math.round(color.alpha * 255).toString(16).padStart(2, '0');
+}
+
+/**
+ * Creates a color from RGB values.
+ *
+ * @param {number} r - Red component (0-255, clamped and rounded)
+ * @param {number} g - Green component (0-255, clamped and rounded)
+ * @param {number} b - Blue component (0-255, clamped and rounded)
+ * @param {number} alpha - Opacity (0-1, clamped) (optional)
+ * @returns {Color} New color
+ * @throws {Error} If a value is not a finite number
+ */
+export function fromRgb(r: number, g: number, b: number, alpha?: number): Color {
+  assertFinite([r, g, b], 'RGB');
+  const [red, green, blue] = [r, g, b].map(channel => Math.round(clamp(channel, 0, 255)));
+  const opacity = normalizeAlpha(alpha);
+  const hsl = rgbToHsl(red, green, blue);
+
+  return {
+    r: red,
+    g: green,
+    b: blue,
+    h: hsl.h,
+    s: hsl.s,
+    l: hsl.l,
+    hex: rgbToHex(red, green, blue),
+    ...(opacity !== undefined && { alpha: opacity })
+  };
+}
+
+/**
+ * Creates a color from HSL values.
+ *
+ * The resulting h, s and l are recomputed from the rounded RGB values,
+ * so they may differ slightly from the ones given.
+ *
+ * @param {number} h - Hue in degrees (any value, wrapped to 0-360)
+ * @param {number} s - Saturation (0-100, clamped)
+ * @param {number} l - Lightness (0-100, clamped)
+ * @param {number} alpha - Opacity (0-1, clamped) (optional)
+ * @returns {Color} New color
+ * @throws {Error} If a value is not a finite number
+ */
+export function fromHsl(h: number, s: number, l: number, alpha?: number): Color {
+  assertFinite([h, s, l], 'HSL');
+  const rgb = hslToRgb(((h % 360) + 360) % 360, clamp(s, 0, 100), clamp(l, 0, 100));
+  return fromRgb(rgb.r, rgb.g, rgb.b, alpha);
+}
+
+// #rgb, #rgba, #rrggbb or #rrggbbaa, with or without the leading #
+const HEX_PATTERN = /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Whether a string is a valid HEX color.
+ *
+ * @param {string} hex - Candidate HEX color
+ * @returns {boolean} True for 3, 4, 6 or 8 hex digits, with or without "#"
+ */
+export function isValidHex(hex: string): boolean {
+  return HEX_PATTERN.test(hex.trim());
+}
+
+/**
+ * Creates a color from a HEX code.
+ *
+ * @param {string} hex - HEX color: #rgb, #rgba, #rrggbb or #rrggbbaa ("#" optional)
+ * @returns {Color} New color (translucent when the code has an alpha digit pair)
+ * @throws {Error} If the code is not a valid HEX color
+ */
+export function fromHex(hex: string): Color {
+  const match = HEX_PATTERN.exec(hex.trim());
+  if (!match) {
+    throw new Error(`Invalid HEX color: ${hex}`);
+  }
+
+  let digits = match[1];
+  if (digits.length <= 4) {
+    digits = digits.split('').map(digit => digit + digit).join('');
+  }
+
+  const [r, g, b, a] = (digits.match(/../g) ?? []).map(pair => parseInt(pair, 16));
+  return fromRgb(r, g, b, a !== undefined ? a / 255 : undefined);
+}
+
+/**
+ * Creates a color from CIE XYZ values (D65).
+ *
+ * Colors that 8-bit sRGB can hold are created with fromRgb. Colors
+ * outside sRGB keep their Display P3 value (clipped to the P3 gamut) and
+ * get the closest sRGB color, found by OKLCH gamut mapping, as fallback.
+ *
+ * @param {number} x - X value
+ * @param {number} y - Y value (0-1)
+ * @param {number} z - Z value
+ * @param {number} alpha - Opacity (0-1, clamped) (optional)
+ * @returns {Color} New color
+ * @throws {Error} If a value is not a finite number
+ */
+export function fromXyz(x: number, y: number, z: number, alpha?: number): Color {
+  assertFinite([x, y, z], 'XYZ');
+  const linear = xyzToLinearSrgb(x, y, z);
+  const srgb = linear.map(channel => encodeSrgb(channel) * 255);
+
+  // Within rounding distance of the sRGB gamut
+  if (srgb.every(channel => channel > -0.5 && channel < 255.5)) {
+    return fromRgb(srgb[0], srgb[1], srgb[2], alpha);
+  }
+
+  const { l, a, b } = linearSrgbToOklab(linear[0], linear[1], linear[2]);
+  const lch = oklabToOklch(l, a, b);
+  const fallback = gamutMapOklch(lch.l, lch.c, lch.h);
+  const p3 = xyzToDisplayP3(x, y, z);
+  const [red, green, blue] = [p3.r, p3.g, p3.b].map(channel => Math.round(clamp(channel, 0, 1) * 10000) / 10000);
+
+  return {
+    ...fromRgb(fallback.r, fallback.g, fallback.b, alpha),
+    displayP3: { r: red, g: green, b: blue }
+  };
+}
+
+/**
+ * Creates a color from OKLab values, keeping colors outside sRGB (see fromXyz).
+ *
+ * @param {number} L - Lightness (0-1)
+ * @param {number} a - Green-red axis
+ * @param {number} b - Blue-yellow axis
+ * @param {number} alpha - Opacity (0-1, clamped) (optional)
+ * @returns {Color} New color
+ * @throws {Error} If a value is not a finite number
+ */
+export function fromOklab(L: number, a: number, b: number, alpha?: number): Color {
+  assertFinite([L, a, b], 'OKLab');
+  const [lr, lg, lb] = oklabToLinearSrgb(L, a, b);
+  const { x, y, z } = linearSrgbToXyz(lr, lg, lb);
+  return fromXyz(x, y, z, alpha);
+}
+
+/**
+ * Creates a color from Display P3 values, keeping colors outside sRGB (see fromXyz).
+ *
+ * @param {number} r - Red component (0-1)
+ * @param {number} g - Green component (0-1)
+ * @param {number} b - Blue component (0-1)
+ * @param {number} alpha - Opacity (0-1, clamped) (optional)
+ * @returns {Color} New color
+ * @throws {Error} If a value is not a finite number
+ */
+export function fromDisplayP3(r: number, g: number, b: number, alpha?: number): Color {
+  assertFinite([r, g, b], 'Display P3');
+  const { x, y, z } = predefinedRgbToXyz('display-p3', r, g, b);
+  return fromXyz(x, y, z, alpha);
+}
+
+/**
+ * Converts a color to CIE XYZ (D65), using its Display P3 value when it has one.
+ *
+ * @param {Color} color - Color to convert
+ * @returns {{x: number, y: number, z: number}} XYZ values (unrounded)
+ */
+export function colorToXyz(color: Color): { x: number; y: number; z: number } {
+  if (!color.displayP3) return rgbToXyz(color.r, color.g, color.b);
+  const { r, g, b } = color.displayP3;
+  return predefinedRgbToXyz('display-p3', r, g, b);
+}
+
+/**
+ * Converts a color to OKLab, using its Display P3 value when it has one.
+ *
+ * @param {Color} color - Color to convert
+ * @returns {{l: number, a: number, b: number}} OKLab values (unrounded)
+ */
+export function colorToOklab(color: Color): { l: number; a: number; b: number } {
+  if (!color.displayP3) return rgbToOklab(color.r, color.g, color.b);
+  const { x, y, z } = colorToXyz(color);
+  const [lr, lg, lb] = xyzToLinearSrgb(x, y, z);
+  return linearSrgbToOklab(lr, lg, lb);
+}
+
+// Everything a color carries besides its value
+function metadataOf(color: Color): Partial<Color> {
+  const { position, weight, regionId, sourceIndex, harmony, locked } = color;
+  return {
+    ...(position !== undefined && { position }),
+    ...(weight !== undefined && { weight }),
+    ...(regionId !== undefined && { regionId }),
+    ...(sourceIndex !== undefined && { sourceIndex }),
+    ...(harmony !== undefined && { harmony }),
+    ...(locked !== undefined && { locked })
+  };
+}
+
+/**
+ * Returns a copy of a color with some RGB channels replaced.
+ *
+ * @param {Color} color - Original color (not modified)
+ * @param {Partial<{r: number, g: number, b: number}>} changes - Channels to replace
+ * @returns {Color} New sRGB color (without Display P3 value) with the original's alpha and metadata
+ */
+export function withRgb(color: Color, changes: Partial<Pick<Color, 'r' | 'g' | 'b'>>): Color {
+  const { r, g, b } = { ...color, ...changes };
+  return { ...fromRgb(r, g, b, color.alpha), ...metadataOf(color) };
+}
+
+/**
+ * Returns a copy of a color with some HSL values replaced.
+ *
+ * @param {Color} color - Original color (not modified)
+ * @param {Partial<{h: number, s: number, l: number}>} changes - Values to replace (h: 0-360, s/l: 0-100)
+ * @returns {Color} New sRGB color (without Display P3 value) with the original's alpha and metadata
+ */
+export function withHsl(color: Color, changes: Partial<Pick<Color, 'h' | 's' | 'l'>>): Color {
+  const { h, s, l } = { ...color, ...changes };
+  return { ...fromHsl(h, s, l, color.alpha), ...metadataOf(color) };
+}
+
+/**
+ * Returns a copy of a color with another opacity.
+ *
+ * @param {Color} color - Original color (not modified)
+ * @param {number} alpha - New opacity (0-1, clamped; undefined for fully opaque)
+ * @returns {Color} New color with the original's Display P3 value and metadata
+ */
+export function withAlpha(color: Color, alpha: number | undefined): Color {
+  return {
+    ...fromRgb(color.r, color.g, color.b, alpha),
+    ...(color.displayP3 && { displayP3: color.displayP3 }),
+    ...metadataOf(color)
+  };
+}
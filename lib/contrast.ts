@@ -0,0 +1,236 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Contrast Library
+ * December 2025
+ *
+ * Contrast metrics and contrast-targeted ramps, for picking text and
+ * background colors that stay readable:
+ * - WCAG 2 contrast ratio (1:1 to 21:1; 3, 4.5 and 7 are the usual targets)
+ * - APCA lightness contrast Lc (0 to about 106; 45, 60, 75 and 90 are the
+ *   usual targets), as used by the WCAG 3 drafts
+ *
+ * A ramp holds, for each target, the color with the base color's hue and
+ * chroma (OKLCH) that reaches the target against white and against black.
+ * Lightness is solved by binary search, staying inside the range where
+ * that hue and chroma fit in sRGB; targets that range cannot reach are
+ * reported as unreachable, with the closest color found.
+ */
+
+import { Color, ContrastMethod } from '@/types/color.types';
+import { fromRgb } from '@/lib/color-value';
+import {
+  srgbToLinear,
+  rgbToOklch,
+  oklabToLinearSrgb,
+  lchToLab,
+  isInSrgbGamut,
+  linearToSrgb
+} from '@/lib/color-spaces';
+
+/**
+ * Usual targets of each contrast method, lowest first.
+ */
+export const DEFAULT_CONTRAST_TARGETS: Record<ContrastMethod, number[]> = {
+  'wcag2': [3, 4.5, 7],
+  'apca': [45, 60, 75, 90],
+};
+
+/**
+ * Backgrounds the ramp is solved against.
+ */
+export type ContrastBackground = 'white' | 'black';
+
+/**
+ * One step of a contrast ramp.
+ *
+ * @interface ContrastStep
+ * @property {number} target - Contrast asked for (WCAG ratio or APCA Lc)
+ * @property {ContrastBackground} background - Background the contrast is measured against
+ * @property {Color} color - Color reaching the target, or the closest one when unreachable
+ * @property {number} contrast - Contrast the color actually has against the background
+ * @property {boolean} reachable - Whether the target is reached with the base hue and chroma
+ */
+export interface ContrastStep {
+  target: number;
+  background: ContrastBackground;
+  color: Color;
+  contrast: number;
+  reachable: boolean;
+}
+
+/**
+ * Contrast ramp of one base color.
+ *
+ * @interface ContrastRamp
+ * @property {Color} base - Color the ramp was built from
+ * @property {ContrastMethod} method - Metric the targets are given in
+ * @property {ContrastStep[]} steps - One step per target and background, against white first
+ */
+export interface ContrastRamp {
+  base: Color;
+  method: ContrastMethod;
+  steps: ContrastStep[];
+}
+
+const BACKGROUNDS: Record<ContrastBackground, Color> = {
+  white: fromRgb(255, 255, 255),
+  black: fromRgb(0, 0, 0),
+};
+
+// Relative luminance as defined by WCAG 2
+function relativeLuminance(color: Color): number {
+  return 0.2126 * srgbToLinear(color.r) + 0.7152 * srgbToLinear(color.g) + 0.0722 * srgbToLinear(color.b);
+}
+
+/**
+ * WCAG 2 contrast ratio between two colors (order does not matter).
+ *
+ * @param {Color} color1 - First color
+ * @param {Color} color2 - Second color
+ * @returns {number} Contrast ratio (1-21)
+ */
+export function wcagContrast(color1: Color, color2: Color): number {
+  const l1 = relativeLuminance(color1);
+  const l2 = relativeLuminance(color2);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+// Screen luminance estimate used by APCA, with the soft clamp of near-black
+function apcaLuminance(color: Color): number {
+  const y = 0.2126729 * Math.pow(color.r / 255, 2.4)
+    + 0.7151522 * Math.pow(color.g / 255, 2.4)
+    + 0.072175 * Math.pow(color.b / 255, 2.4);
+  return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+}
+
+/**
+ * APCA lightness contrast of text on a background (APCA 0.0.98G).
+ *
+ * Unlike WCAG 2, APCA is not symmetric: the result is positive for dark
+ * text on a light background and negative for light text on a dark one.
+ *
+ * @param {Color} text - Text color
+ * @param {Color} background - Background color
+ * @returns {number} Lightness contrast Lc (about -108 to 106)
+ */
+export function apcaContrast(text: Color, background: Color): number {
+  const yText = apcaLuminance(text);
+  const yBackground = apcaLuminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+
+  const sapc = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+/**
+ * Contrast of a color used as text on a background, in the given method.
+ *
+ * @param {Color} color - Text color
+ * @param {Color} background - Background color
+ * @param {ContrastMethod} method - Contrast method
+ * @returns {number} WCAG ratio, or APCA Lc as a positive number
+ */
+export function measureContrast(color: Color, background: Color, method: ContrastMethod): number {
+  return method === 'apca' ? Math.abs(apcaContrast(color, background)) : wcagContrast(color, background);
+}
+
+// Lightest and darkest OKLCH lightness at which a hue and chroma fit in sRGB
+function lightnessRange(chroma: number, hue: number): [number, number] | null {
+  const fits = (lightness: number) => {
+    const lab = lchToLab(lightness, chroma, hue);
+    return isInSrgbGamut(oklabToLinearSrgb(lab.l, lab.a, lab.b));
+  };
+
+  const SAMPLES = 200;
+  const inside: number[] = [];
+  for (let i = 0; i <= SAMPLES; i++) {
+    if (fits(i / SAMPLES)) inside.push(i / SAMPLES);
+  }
+  if (inside.length === 0) return null;
+
+  // Refine each edge between its last sample outside and first sample inside
+  const refine = (outsideValue: number, insideValue: number) => {
+    let outside = outsideValue;
+    let inner = insideValue;
+    for (let i = 0; i < 20; i++) {
+      const mid = (outside + inner) / 2;
+      if (fits(mid)) inner = mid; else outside = mid;
+    }
+    return inner;
+  };
+
+  const low = inside[0];
+  const high = inside[inside.length - 1];
+  return [
+    low > 0 ? refine(low - 1 / SAMPLES, low) : 0,
+    high < 1 ? refine(high + 1 / SAMPLES, high) : 1,
+  ];
+}
+
+// Color with a hue and chroma at an OKLCH lightness
+function colorAt(lightness: number, chroma: number, hue: number): Color {
+  const lab = lchToLab(lightness, chroma, hue);
+  const [lr, lg, lb] = oklabToLinearSrgb(lab.l, lab.a, lab.b);
+  return fromRgb(linearToSrgb(lr), linearToSrgb(lg), linearToSrgb(lb));
+}
+
+/**
+ * Builds a contrast ramp: for every target, the color with the base
+ * color's hue and chroma that reaches it against white and against black.
+ *
+ * Against white the lightest color reaching the target is chosen, against
+ * black the darkest, so each step stays as close to the middle of the
+ * ramp as the target allows.
+ *
+ * @param {Color} base - Base color (hue and chroma source; its sRGB value for wide-gamut colors)
+ * @param {number[]} targets - Contrast targets (WCAG ratios or APCA Lc values)
+ * @param {ContrastMethod} method - Method the targets are given in (optional, WCAG 2 by default)
+ * @returns {ContrastRamp} Steps against white (in target order) followed by steps against black
+ */
+export function generateContrastRamp(base: Color, targets: number[], method: ContrastMethod = 'wcag2'): ContrastRamp {
+  const { l, c: chroma, h } = rgbToOklch(base.r, base.g, base.b);
+  const range = lightnessRange(chroma, h) ?? [l, l];
+
+  const solve = (target: number, background: ContrastBackground): ContrastStep => {
+    const against = BACKGROUNDS[background];
+    const contrastAt = (lightness: number) => measureContrast(colorAt(lightness, chroma, h), against, method);
+
+    // Contrast grows from the end of the range next to the background to the other one
+    const [near, far] = background === 'white' ? [range[1], range[0]] : [range[0], range[1]];
+
+    if (contrastAt(far) < target) {
+      const color = colorAt(far, chroma, h);
+      return { target, background, color, contrast: measureContrast(color, against, method), reachable: false };
+    }
+
+    let meets = far;
+    let misses = near;
+    if (contrastAt(near) >= target) {
+      meets = near;
+    } else {
+      for (let i = 0; i < 30; i++) {
+        const mid = (meets + misses) / 2;
+        if (contrastAt(mid) >= target) meets = mid; else misses = mid;
+      }
+    }
+
+    const color = colorAt(meets, chroma, h);
+    return { target, background, color, contrast: measureContrast(color, against, method), reachable: true };
+  };
+
+  const sorted = [...targets].sort((a, b) => a - b);
+  const backgrounds: ContrastBackground[] = ['white', 'black'];
+
+  return {
+    base,
+    method,
+    steps: backgrounds.flatMap(background => sorted.map(target => solve(target, background))),
+  };
+}
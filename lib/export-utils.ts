@@ -6,20 +6,40 @@
  * December 2025
  *
  * Handles exporting color palettes in multiple formats:
- * - JSON: Structured data with HEX, RGB, and HSL values
+ * - JSON: Structured data with HEX, RGB, HSL values, coverage weight and opacity
  * - CSS: CSS custom properties (variables) for web projects
  * - SVG: Scalable vector graphic showing color swatches
  * - PNG: Raster image of the color palette
+ * - Harmony rules: custom harmony rules as JSON, for importing elsewhere
+ * - Tonal scales: 50-950 scales as a Tailwind config or CSS custom properties
+ * - Material schemes: Android colors.xml resources or Material Theme JSON
+ * - Gradients: CSS (with a fallback), SVG, or a list of N evenly spaced colors
+ *
+ * Translucent colors (extracted from transparent images) keep their
+ * opacity in every format. Wide-gamut colors are written as
+ * color(display-p3 ...) with their sRGB HEX as fallback, and PNG exports
+ * containing them use a Display P3 canvas.
  *
  * All export functions trigger automatic downloads in the browser.
  */
 
-import { Color } from '@/types/color.types';
+import { Color, Gradient, HarmonyOverride, HarmonyRule } from '@/types/color.types';
+import { colorToHex } from '@/lib/color-value';
+import { formatDisplayP3 } from '@/lib/color-format';
+import { serializeHarmonyRules } from '@/lib/harmony-rules';
+import { TonalScale } from '@/lib/tonal-scales';
+import { MaterialScheme, MaterialRole, MATERIAL_ROLES } from '@/lib/material-scheme';
+import { gradientToCSS, gradientToFallbackCSS, gradientToSVG } from '@/lib/gradients';
 
 /**
  * Exports the color palette as a JSON file.
  *
  * Creates a JSON array with each color's HEX, RGB, and HSL values.
+ * Extracted base colors also include their coverage weight (0-1), and
+ * translucent colors their alpha (0-1). Colors extracted from one of
+ * several images record that image's number (1-based), colors outside
+ * sRGB their Display P3 value, and base colors with their own harmony
+ * settings those settings ("none" when they generate no harmony).
  * Useful for importing palettes into other tools or applications.
  *
  * @param {Color[]} colors - Array of colors to export
@@ -28,7 +48,12 @@ export function exportAsJSON(colors: Color[]): void {
   const paletteData = colors.map(color => ({
     hex: color.hex,
     rgb: { r: color.r, g: color.g, b: color.b },
-    hsl: { h: color.h, s: color.s, l: color.l }
+    hsl: { h: color.h, s: color.s, l: color.l },
+    ...(color.weight !== undefined && { weight: Number(color.weight.toFixed(4)) }),
+    ...(color.alpha !== undefined && { alpha: color.alpha }),
+    ...(color.sourceIndex !== undefined && { image: color.sourceIndex + 1 }),
+    ...(color.displayP3 && { displayP3: formatDisplayP3(color) }),
+    ...(color.harmony && { harmony: describeHarmonyOverride(color.harmony) })
   }));
 
   const jsonString = JSON.stringify(paletteData, null, 2);
@@ -40,13 +65,29 @@ export function exportAsCSS(colors: Color[]): void {
   let cssString = ':root {\n';
 
   colors.forEach((color, index) => {
-    cssString += `  --color-${index + 1}: ${color.hex};\n`;
+    cssString += `  --color-${index + 1}: ${colorToHex(color)};\n`;
     cssString += `  --color-${index + 1}-rgb: ${color.r}, ${color.g}, ${color.b};\n`;
     cssString += `  --color-${index + 1}-hsl: ${color.h}, ${color.s}%, ${color.l}%;\n`;
+    if (color.alpha !== undefined) {
+      cssString += `  --color-${index + 1}-rgba: rgba(${color.r}, ${color.g}, ${color.b}, ${color.alpha});\n`;
+    }
   });
 
   cssString += '}\n';
 
+  // Browsers that can show wide-gamut colors override the sRGB fallbacks
+  const wideColors = colors
+    .map((color, index) => ({ index, value: formatDisplayP3(color) }))
+    .filter(entry => entry.value !== undefined);
+
+  if (wideColors.length > 0) {
+    cssString += '\n@supports (color: color(display-p3 1 1 1)) {\n  :root {\n';
+    wideColors.forEach(({ index, value }) => {
+      cssString += `    --color-${index + 1}: ${value};\n`;
+    });
+    cssString += '  }\n}\n';
+  }
+
   downloadFile(cssString, 'palette.css', 'text/css');
 }
 
@@ -64,8 +105,10 @@ export function exportAsSVG(colors: Color[]): void {
     const x = (index % columns) * swatchSize;
     const y = Math.floor(index / columns) * swatchSize;
 
-    svgString += `  <rect x="${x}" y="${y}" width="${swatchSize}" height="${swatchSize}" fill="${color.hex}"/>\n`;
-    svgString += `  <text x="${x + swatchSize / 2}" y="${y + swatchSize / 2}" text-anchor="middle" dominant-baseline="middle" font-family="monospace" font-size="12" fill="${color.l > 50 ? '#000000' : '#FFFFFF'}">${color.hex}</text>\n`;
+    // The style's Display P3 fill wins where supported, the fill attribute is the fallback
+    const wideFill = color.displayP3 ? formatDisplayP3({ ...color, alpha: undefined }) : undefined;
+    svgString += `  <rect x="${x}" y="${y}" width="${swatchSize}" height="${swatchSize}" fill="${color.hex}"${color.alpha !== undefined ? ` fill-opacity="${color.alpha}"` : ''}${wideFill ? ` style="fill: ${wideFill}"` : ''}/>\n`;
+    svgString += `  <text x="${x + swatchSize / 2}" y="${y + swatchSize / 2}" text-anchor="middle" dominant-baseline="middle" font-family="monospace" font-size="12" fill="${color.l > 50 ? '#000000' : '#FFFFFF'}">${colorToHex(color)}</text>\n`;
   });
 
   svgString += '</svg>';
@@ -79,7 +122,9 @@ export function exportAsPNG(colors: Color[]): void {
   const columns = 5;
   const rows = Math.ceil(colors.length / columns);
   const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
+  const ctx = canvas.getContext('2d', {
+    colorSpace: colors.some(color => color.displayP3) ? 'display-p3' : 'srgb'
+  });
 
   if (!ctx) return;
 
@@ -90,8 +135,10 @@ export function exportAsPNG(colors: Color[]): void {
     const x = (index % columns) * swatchSize;
     const y = Math.floor(index / columns) * swatchSize;
 
-    // Draw color swatch
-    ctx.fillStyle = color.hex;
+    // Draw color swatch (browsers without Display P3 ignore that value and keep HEX)
+    ctx.fillStyle = colorToHex(color);
+    const wideFill = formatDisplayP3(color);
+    if (wideFill) ctx.fillStyle = wideFill;
     ctx.fillRect(x, y, swatchSize, swatchSize);
 
     // Draw text
@@ -99,7 +146,7 @@ export function exportAsPNG(colors: Color[]): void {
     ctx.font = '14px monospace';
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
-    ctx.fillText(color.hex, x + swatchSize / 2, y + swatchSize / 2);
+    ctx.fillText(colorToHex(color), x + swatchSize / 2, y + swatchSize / 2);
   });
 
   canvas.toBlob((blob) => {
@@ -116,6 +163,150 @@ export function exportAsPNG(colors: Color[]): void {
   });
 }
 
+/**
+ * Exports custom harmony rules as a JSON file that can be imported again.
+ *
+ * @param {HarmonyRule[]} rules - Rules to export
+ */
+export function exportHarmonyRules(rules: HarmonyRule[]): void {
+  downloadFile(serializeHarmonyRules(rules), 'harmony-rules.json', 'application/json');
+}
+
+/**
+ * Exports tonal scales as a Tailwind CSS config extending the theme colors.
+ *
+ * Each base color becomes a color named color-1, color-2, ... with its
+ * 50-950 steps, usable as bg-color-1-500, text-color-2-50 and so on.
+ *
+ * @param {TonalScale[]} scales - Scales to export
+ */
+export function exportScalesAsTailwind(scales: TonalScale[]): void {
+  let configString = "/** @type {import('tailwindcss').Config} */\nmodule.exports = {\n  theme: {\n    extend: {\n      colors: {\n";
+
+  scales.forEach((scale, index) => {
+    configString += `        'color-${index + 1}': {\n`;
+    scale.steps.forEach(({ step, color }) => {
+      configString += `          ${step}: '${color.hex}',\n`;
+    });
+    configString += '        },\n';
+  });
+
+  configString += '      },\n    },\n  },\n};\n';
+
+  downloadFile(configString, 'tailwind.colors.js', 'text/javascript');
+}
+
+/**
+ * Exports tonal scales as CSS custom properties (--color-1-50 ... --color-1-950).
+ *
+ * @param {TonalScale[]} scales - Scales to export
+ */
+export function exportScalesAsCSS(scales: TonalScale[]): void {
+  let cssString = ':root {\n';
+
+  scales.forEach((scale, index) => {
+    scale.steps.forEach(({ step, color }) => {
+      cssString += `  --color-${index + 1}-${step}: ${color.hex};\n`;
+    });
+  });
+
+  cssString += '}\n';
+
+  downloadFile(cssString, 'palette-scales.css', 'text/css');
+}
+
+/**
+ * Exports a Material scheme as an Android colors.xml resource file.
+ *
+ * Every role of both themes becomes a color resource named the way
+ * Material Theme Builder does (md_theme_light_primary,
+ * md_theme_dark_onPrimary, ...), plus the seed color.
+ *
+ * @param {MaterialScheme} scheme - Scheme to export
+ */
+export function exportMaterialAsAndroidXML(scheme: MaterialScheme): void {
+  const roles = Object.keys(MATERIAL_ROLES) as MaterialRole[];
+  let xmlString = '<?xml version="1.0" encoding="utf-8"?>\n<resources>\n';
+  xmlString += `    <color name="seed">${scheme.seed.hex.toUpperCase()}</color>\n`;
+
+  (['light', 'dark'] as const).forEach(theme => {
+    roles.forEach(role => {
+      xmlString += `    <color name="md_theme_${theme}_${role}">${scheme[theme][role].hex.toUpperCase()}</color>\n`;
+    });
+  });
+
+  xmlString += '</resources>\n';
+
+  downloadFile(xmlString, 'colors.xml', 'application/xml');
+}
+
+/**
+ * Exports a Material scheme as JSON with the seed, both themes and every
+ * tonal palette (tones 0-100), in the layout of Material Theme Builder.
+ *
+ * @param {MaterialScheme} scheme - Scheme to export
+ */
+export function exportMaterialAsJSON(scheme: MaterialScheme): void {
+  const hexMap = (entries: [string, Color][]) =>
+    Object.fromEntries(entries.map(([key, color]) => [key, color.hex.toUpperCase()]));
+
+  const data = {
+    seed: scheme.seed.hex.toUpperCase(),
+    schemes: {
+      light: hexMap(Object.entries(scheme.light)),
+      dark: hexMap(Object.entries(scheme.dark)),
+    },
+    palettes: Object.fromEntries(scheme.palettes.map(palette => [
+      palette.name,
+      hexMap(palette.tones.map(({ tone, color }): [string, Color] => [String(tone), color])),
+    ])),
+  };
+
+  downloadFile(JSON.stringify(data, null, 2), 'material-theme.json', 'application/json');
+}
+
+/**
+ * Exports a gradient as a CSS rule. The first declaration uses sampled
+ * sRGB stops and works everywhere; browsers that understand "in <space>"
+ * interpolation use the second one.
+ *
+ * @param {Gradient} gradient - Gradient to export
+ */
+export function exportGradientAsCSS(gradient: Gradient): void {
+  const cssString = `.gradient {\n  background: ${gradientToFallbackCSS(gradient)};\n  background: ${gradientToCSS(gradient)};\n}\n`;
+  downloadFile(cssString, 'gradient.css', 'text/css');
+}
+
+/**
+ * Exports a gradient as an SVG image.
+ *
+ * @param {Gradient} gradient - Gradient to export
+ */
+export function exportGradientAsSVG(gradient: Gradient): void {
+  downloadFile(gradientToSVG(gradient), 'gradient.svg', 'image/svg+xml');
+}
+
+/**
+ * Exports colors sampled along a gradient as a JSON array of HEX values
+ * (8-digit for translucent colors).
+ *
+ * @param {Color[]} colors - Sampled colors
+ */
+export function exportGradientSteps(colors: Color[]): void {
+  downloadFile(JSON.stringify(colors.map(colorToHex), null, 2), 'gradient-steps.json', 'application/json');
+}
+
+// Harmony settings of a base color as written to JSON: "none", or the mode
+// (a custom rule by name) and ring count it overrides
+function describeHarmonyOverride(override: HarmonyOverride): string | { mode?: string; rings?: number } {
+  if (override.disabled) return 'none';
+  const { mode, rings } = override;
+  return {
+    ...(mode !== undefined && { mode: typeof mode === 'string' ? mode : mode.name }),
+    ...(rings !== undefined && { rings })
+  };
+}
+
 // Helper function to download text files
 function downloadFile(content: string, filename: string, mimeType: string): void {
   const blob = new Blob([content], { type: mimeType });
@@ -0,0 +1,183 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Extraction Client Library
+ * December 2025
+ *
+ * Main-thread side of the color extraction worker. Wraps the worker
+ * protocol in a promise-based API with:
+ * - Progress reporting (decoding and extraction stages)
+ * - Cancellation through an AbortSignal (the worker is terminated, so
+ *   even a long-running extraction stops immediately)
+ * - A main-thread fallback for browsers without OffscreenCanvas
+ *
+ * Each call spawns its own worker, which is terminated as soon as the
+ * result arrives or the request is aborted. Several images are extracted
+ * one after another with runExtractionBatch.
+ */
+
+import { ExtractionOptions, ExtractionOutput } from '@/types/color.types';
+import { ExtractionRequest, ExtractionStage, ExtractionWorkerMessage } from '@/types/worker.types';
+import { loadImageFromFile, getImageData, supportsOffscreenDecoding } from '@/lib/canvas-utils';
+import { extractColors } from '@/lib/color-extraction';
+
+/**
+ * Result of an extraction: the extraction output plus the decoded pixels.
+ *
+ * @interface ExtractionResult
+ * @property {ImageData} imageData - Decoded pixels of the source image
+ */
+export interface ExtractionResult extends ExtractionOutput {
+  imageData: ImageData;
+}
+
+/**
+ * Options for a single extraction run.
+ *
+ * @interface RunExtractionOptions
+ * @property {AbortSignal} signal - Aborts the extraction (optional)
+ * @property {Function} onProgress - Receives the current stage and its progress (0-1) (optional)
+ */
+export interface RunExtractionOptions {
+  signal?: AbortSignal;
+  onProgress?: (stage: ExtractionStage, progress: number) => void;
+}
+
+// Error used to reject aborted extractions, matching fetch() semantics
+function abortError(): DOMException {
+  return new DOMException('Extraction cancelled', 'AbortError');
+}
+
+/**
+ * Whether an error comes from an aborted extraction.
+ *
+ * @param {unknown} error - Error thrown by runExtraction
+ * @returns {boolean} True if the extraction was cancelled
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Main-thread fallback used when the worker cannot decode images
+async function runOnMainThread(
+  source: File | ImageData,
+  options: ExtractionOptions,
+  { signal, onProgress }: RunExtractionOptions
+): Promise<ExtractionResult> {
+  let imageData: ImageData;
+
+  if (source instanceof ImageData) {
+    imageData = source;
+  } else {
+    onProgress?.('decoding', 0);
+    imageData = getImageData(await loadImageFromFile(source));
+  }
+
+  if (signal?.aborted) throw abortError();
+
+  const output = extractColors(imageData, options, (progress) => onProgress?.('extracting', progress));
+  return { ...output, imageData };
+}
+
+/**
+ * Extracts dominant colors from an image file or already decoded pixels.
+ *
+ * Decoding and extraction run in a dedicated Web Worker whenever the
+ * browser supports it. Aborting the signal terminates the worker and
+ * rejects the promise with an AbortError (see isAbortError).
+ *
+ * @param {File | ImageData} source - Image file to decode, or decoded pixels to re-extract from
+ * @param {ExtractionOptions} options - Extraction options
+ * @param {RunExtractionOptions} runOptions - Cancellation signal and progress callback
+ * @returns {Promise<ExtractionResult>} Extracted colors and the decoded pixels
+ */
+export function runExtraction(
+  source: File | ImageData,
+  options: ExtractionOptions,
+  runOptions: RunExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const { signal, onProgress } = runOptions;
+
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  if (!supportsOffscreenDecoding()) {
+    return runOnMainThread(source, options, runOptions);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/extraction.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<ExtractionWorkerMessage>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.stage, message.progress);
+          break;
+
+        case 'result':
+          cleanup();
+          resolve({
+            ...message.output,
+            imageData: message.imageData ?? (source as ImageData)
+          });
+          break;
+
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Extraction worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    const request: ExtractionRequest = { source, options };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Extracts dominant colors from several images, one after another.
+ *
+ * Progress is reported for the batch as a whole: each image takes an
+ * equal share of the extraction progress. Aborting the signal cancels
+ * the image being extracted and skips the rest.
+ *
+ * @param {{source: File | ImageData, options: ExtractionOptions}[]} requests - Image and options for each extraction
+ * @param {RunExtractionOptions} runOptions - Cancellation signal and progress callback
+ * @returns {Promise<ExtractionResult[]>} One result per request, in order
+ */
+export async function runExtractionBatch(
+  requests: { source: File | ImageData; options: ExtractionOptions }[],
+  runOptions: RunExtractionOptions = {}
+): Promise<ExtractionResult[]> {
+  const { signal, onProgress } = runOptions;
+  const results: ExtractionResult[] = [];
+
+  for (const [index, { source, options }] of requests.entries()) {
+    results.push(await runExtraction(source, options, {
+      signal,
+      onProgress: (stage, progress) => onProgress?.(stage, (index + progress) / requests.length)
+    }));
+  }
+
+  return results;
+}
@@ -0,0 +1,262 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Extraction Filters Library
+ * December 2025
+ *
+ * Excludes pixels that should not take palette slots, typically the
+ * white, black or grey backgrounds of product shots and screenshots:
+ * - Background: pixels close to the dominant border color and connected
+ *   to the image border (flood fill)
+ * - Neutrals: pixels whose OKLCH chroma is below a threshold
+ * - Lightness: pixels darker or lighter than the OKLCH lightness limits
+ *
+ * Filters run once per extraction over every image pixel and produce an
+ * exclusion map, which is merged into the sampling mask. The number of
+ * pixels removed by each filter is reported as FilterStats.
+ */
+
+import { ExtractionFilters, FilterStats } from '@/types/color.types';
+import { rgbToOklab } from '@/lib/color-spaces';
+
+/**
+ * Default filter settings (every filter off).
+ */
+export const DEFAULT_FILTERS: Required<ExtractionFilters> = {
+  excludeBackground: false,
+  excludeNeutrals: false,
+  neutralChroma: 0.03,
+  excludeLightness: false,
+  minLightness: 10,
+  maxLightness: 95,
+};
+
+// Reasons stored in the exclusion map (0 = kept)
+const EXCLUDED_BACKGROUND = 1;
+const EXCLUDED_NEUTRAL = 2;
+const EXCLUDED_LIGHTNESS = 3;
+
+// Maximum RGB distance from the background color for a pixel to join it
+const BACKGROUND_TOLERANCE = 40;
+
+// Share of the border the dominant color must cover to count as background
+const BACKGROUND_MIN_BORDER_SHARE = 0.4;
+
+/**
+ * Whether any filter is enabled.
+ *
+ * @param {ExtractionFilters} filters - Filter settings (optional)
+ * @returns {boolean} True if at least one filter excludes pixels
+ */
+export function hasActiveFilters(filters?: ExtractionFilters): boolean {
+  return Boolean(filters?.excludeBackground || filters?.excludeNeutrals || filters?.excludeLightness);
+}
+
+// Indices of every pixel on the image border, each listed once
+function borderIndices(width: number, height: number): number[] {
+  const indices: number[] = [];
+
+  for (let x = 0; x < width; x++) {
+    indices.push(x);
+    if (height > 1) indices.push((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    indices.push(y * width);
+    if (width > 1) indices.push(y * width + width - 1);
+  }
+
+  return indices;
+}
+
+// Dominant color along the image border, or null if the border is too varied
+function findBorderColor(imageData: ImageData): number[] | null {
+  const { data, width, height } = imageData;
+  const bins = new Map<number, { count: number; sum: number[] }>();
+  let visible = 0;
+
+  borderIndices(width, height).forEach(idx => {
+    const i = idx * 4;
+    if (data[i + 3] === 0) return;
+
+    // Group border pixels into coarse 4-bit-per-channel bins
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bin = bins.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    bin.count++;
+    bin.sum[0] += data[i];
+    bin.sum[1] += data[i + 1];
+    bin.sum[2] += data[i + 2];
+    bins.set(key, bin);
+    visible++;
+  });
+
+  let best: { count: number; sum: number[] } | null = null;
+  for (const bin of bins.values()) {
+    if (!best || bin.count > best.count) best = bin;
+  }
+
+  if (!best || best.count / visible < BACKGROUND_MIN_BORDER_SHARE) return null;
+
+  const { count, sum } = best;
+  return sum.map(c => c / count);
+}
+
+// Flood fill the background connected to the border into the exclusion map
+function markBackground(imageData: ImageData, excluded: Uint8Array): void {
+  const background = findBorderColor(imageData);
+  if (!background) return;
+
+  const { data, width, height } = imageData;
+  const tolerance = BACKGROUND_TOLERANCE * BACKGROUND_TOLERANCE;
+  const stack = new Int32Array(width * height);
+  let top = 0;
+
+  const matches = (idx: number): boolean => {
+    const i = idx * 4;
+    if (data[i + 3] === 0) return false;
+    const dr = data[i] - background[0];
+    const dg = data[i + 1] - background[1];
+    const db = data[i + 2] - background[2];
+    return dr * dr + dg * dg + db * db <= tolerance;
+  };
+
+  const visit = (idx: number) => {
+    if (excluded[idx] || !matches(idx)) return;
+    excluded[idx] = EXCLUDED_BACKGROUND;
+    stack[top++] = idx;
+  };
+
+  borderIndices(width, height).forEach(visit);
+
+  while (top > 0) {
+    const idx = stack[--top];
+    const x = idx % width;
+
+    if (x > 0) visit(idx - 1);
+    if (x < width - 1) visit(idx + 1);
+    if (idx >= width) visit(idx - width);
+    if (idx < width * (height - 1)) visit(idx + width);
+  }
+}
+
+/**
+ * Classifies every pixel of an image against the extraction filters.
+ *
+ * Filters are applied in order (background, neutrals, lightness) and
+ * each excluded pixel records the first filter that removed it.
+ * Fully transparent pixels are never excluded.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {ExtractionFilters} filters - Filter settings (optional)
+ * @returns {Uint8Array | null} One byte per pixel, non-zero when excluded (null when no filter is enabled)
+ */
+export function createExclusionMap(imageData: ImageData, filters?: ExtractionFilters): Uint8Array | null {
+  if (!hasActiveFilters(filters)) return null;
+
+  const settings = { ...DEFAULT_FILTERS, ...filters };
+  const { data, width, height } = imageData;
+  const excluded = new Uint8Array(width * height);
+
+  if (settings.excludeBackground) {
+    markBackground(imageData, excluded);
+  }
+
+  if (settings.excludeNeutrals || settings.excludeLightness) {
+    for (let idx = 0; idx < excluded.length; idx++) {
+      const i = idx * 4;
+      if (excluded[idx] || data[i + 3] === 0) continue;
+
+      const { l, a, b } = rgbToOklab(data[i], data[i + 1], data[i + 2]);
+
+      if (settings.excludeNeutrals && Math.hypot(a, b) < settings.neutralChroma) {
+        excluded[idx] = EXCLUDED_NEUTRAL;
+      } else if (
+        settings.excludeLightness &&
+        (l * 100 < settings.minLightness || l * 100 > settings.maxLightness)
+      ) {
+        excluded[idx] = EXCLUDED_LIGHTNESS;
+      }
+    }
+  }
+
+  return excluded;
+}
+
+/**
+ * Counts the visible pixels removed by each filter.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {Uint8Array | null} excluded - Exclusion map from createExclusionMap
+ * @param {Uint8Array[]} scopes - Region masks to count within (whole image when empty)
+ * @returns {FilterStats} Pixels considered and removed per filter
+ */
+export function countExclusions(
+  imageData: ImageData,
+  excluded: Uint8Array | null,
+  scopes: Uint8Array[] = []
+): FilterStats {
+  const { data } = imageData;
+  const stats: FilterStats = { total: 0, background: 0, neutrals: 0, lightness: 0 };
+  const pixelCount = imageData.width * imageData.height;
+
+  for (let idx = 0; idx < pixelCount; idx++) {
+    if (data[idx * 4 + 3] === 0) continue;
+    if (scopes.length > 0 && !scopes.some(scope => scope[idx])) continue;
+
+    stats.total++;
+    switch (excluded?.[idx]) {
+      case EXCLUDED_BACKGROUND:
+        stats.background++;
+        break;
+      case EXCLUDED_NEUTRAL:
+        stats.neutrals++;
+        break;
+      case EXCLUDED_LIGHTNESS:
+        stats.lightness++;
+        break;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Adds up filter statistics from several extractions (e.g. several images).
+ *
+ * @param {FilterStats[]} stats - Statistics to add up
+ * @returns {FilterStats} Total pixels considered and removed per filter
+ */
+export function sumFilterStats(stats: FilterStats[]): FilterStats {
+  return stats.reduce(
+    (sum, entry) => ({
+      total: sum.total + entry.total,
+      background: sum.background + entry.background,
+      neutrals: sum.neutrals + entry.neutrals,
+      lightness: sum.lightness + entry.lightness
+    }),
+    { total: 0, background: 0, neutrals: 0, lightness: 0 }
+  );
+}
+
+/**
+ * Combines an optional region mask with an exclusion map into a sampling mask.
+ *
+ * @param {number} pixelCount - Number of pixels in the image
+ * @param {Uint8Array | undefined} regionMask - Region mask (whole image when undefined)
+ * @param {Uint8Array | null} excluded - Exclusion map from createExclusionMap
+ * @returns {Uint8Array | undefined} Mask of pixels to sample (undefined when every pixel is kept)
+ */
+export function combineMasks(
+  pixelCount: number,
+  regionMask: Uint8Array | undefined,
+  excluded: Uint8Array | null
+): Uint8Array | undefined {
+  if (!excluded) return regionMask;
+
+  const mask = new Uint8Array(pixelCount);
+  for (let idx = 0; idx < pixelCount; idx++) {
+    mask[idx] = (!regionMask || regionMask[idx]) && !excluded[idx] ? 1 : 0;
+  }
+
+  return mask;
+}
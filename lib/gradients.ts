@@ -0,0 +1,249 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Gradients Library
+ * December 2025
+ *
+ * Multi-stop gradients between palette colors:
+ * - Color mixing in sRGB, linear RGB, OKLab, OKLCH (shorter or longer
+ *   hue) or HSL, following CSS Color 4 interpolation rules
+ * - Discrete N-step color lists sampled along the gradient
+ * - CSS gradients (linear, radial, conic) using "in <space>"
+ *   interpolation, preceded by a fallback made of sampled sRGB stops for
+ *   browsers without it
+ * - SVG gradients, whose sRGB interpolation gets the same sampled stops
+ *
+ * Stops are evenly spaced along the gradient.
+ */
+
+import { Color, Gradient, GradientInterpolation } from '@/types/color.types';
+import { fromHsl, fromOklab, fromXyz, colorToOklab, colorToXyz, colorToHex } from '@/lib/color-value';
+import { encodeSrgb, xyzToLinearSrgb, linearSrgbToXyz, oklabToOklch, lchToLab } from '@/lib/color-spaces';
+import { formatDisplayP3 } from '@/lib/color-format';
+
+/**
+ * Default gradient settings (stops are chosen by the user).
+ */
+export const DEFAULT_GRADIENT: Omit<Gradient, 'stops'> = {
+  shape: 'linear',
+  interpolation: 'oklab',
+  angle: 90,
+};
+
+// Sampled stops per segment of CSS fallbacks and SVG gradients: enough for
+// sRGB interpolation between them to look like the chosen space
+const SAMPLES_PER_SEGMENT = 8;
+
+// Hue of a color with (almost) no chroma or saturation is powerless and
+// takes the other color's hue, as in CSS
+const ACHROMATIC = { oklch: 0.0004, hsl: 0.5 };
+
+// Decode a gamma-encoded channel (0-1, or beyond for extended sRGB) to linear light
+function decodeSrgb(value: number): number {
+  const v = Math.abs(value);
+  return Math.sign(value) * (v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4));
+}
+
+// Linear sRGB channels of a color, beyond 0-1 for wide-gamut colors
+function linearChannels(color: Color): number[] {
+  const { x, y, z } = colorToXyz(color);
+  return xyzToLinearSrgb(x, y, z);
+}
+
+// Color from linear sRGB channels, with an optional alpha
+function fromLinear(channels: number[], alpha?: number): Color {
+  const { x, y, z } = linearSrgbToXyz(channels[0], channels[1], channels[2]);
+  return fromXyz(x, y, z, alpha);
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Interpolate two hues (degrees) the shorter or the longer way round, with
+// the hue fixup of CSS Color 4 (equal hues go a full turn the longer way)
+function lerpHue(h1: number, h2: number, t: number, longer: boolean): number {
+  let from = ((h1 % 360) + 360) % 360;
+  let to = ((h2 % 360) + 360) % 360;
+  const delta = to - from;
+
+  if (longer) {
+    if (delta > 0 && delta < 180) from += 360;
+    else if (delta > -180 && delta <= 0) to += 360;
+  } else {
+    if (delta > 180) from += 360;
+    else if (delta < -180) to += 360;
+  }
+
+  return from + (to - from) * t;
+}
+
+// Hues of two colors, a powerless one replaced by the other's
+function pairHues(h1: number, achromatic1: boolean, h2: number, achromatic2: boolean): [number, number] {
+  if (achromatic1 && !achromatic2) return [h2, h2];
+  if (achromatic2 && !achromatic1) return [h1, h1];
+  return [h1, h2];
+}
+
+/**
+ * Registry of interpolation spaces: the color at `t` (0-1) between two colors.
+ */
+const INTERPOLATORS: Record<GradientInterpolation, (from: Color, to: Color, t: number, alpha?: number) => Color> = {
+  srgb: (from, to, t, alpha) => {
+    const a = linearChannels(from).map(encodeSrgb);
+    const b = linearChannels(to).map(encodeSrgb);
+    return fromLinear(a.map((value, idx) => decodeSrgb(lerp(value, b[idx], t))), alpha);
+  },
+
+  'srgb-linear': (from, to, t, alpha) => {
+    const a = linearChannels(from);
+    const b = linearChannels(to);
+    return fromLinear(a.map((value, idx) => lerp(value, b[idx], t)), alpha);
+  },
+
+  oklab: (from, to, t, alpha) => {
+    const a = colorToOklab(from);
+    const b = colorToOklab(to);
+    return fromOklab(lerp(a.l, b.l, t), lerp(a.a, b.a, t), lerp(a.b, b.b, t), alpha);
+  },
+
+  'oklch-shorter': (from, to, t, alpha) => mixOklch(from, to, t, false, alpha),
+
+  'oklch-longer': (from, to, t, alpha) => mixOklch(from, to, t, true, alpha),
+
+  hsl: (from, to, t, alpha) => {
+    const [h1, h2] = pairHues(from.h, from.s < ACHROMATIC.hsl, to.h, to.s < ACHROMATIC.hsl);
+    return fromHsl(lerpHue(h1, h2, t, false), lerp(from.s, to.s, t), lerp(from.l, to.l, t), alpha);
+  },
+};
+
+// Mix in OKLCH, the hue turning the shorter or the longer way
+function mixOklch(from: Color, to: Color, t: number, longer: boolean, alpha?: number): Color {
+  const labA = colorToOklab(from);
+  const labB = colorToOklab(to);
+  const a = oklabToOklch(labA.l, labA.a, labA.b);
+  const b = oklabToOklch(labB.l, labB.a, labB.b);
+  const [h1, h2] = pairHues(a.h, a.c < ACHROMATIC.oklch, b.h, b.c < ACHROMATIC.oklch);
+  const lab = lchToLab(lerp(a.l, b.l, t), lerp(a.c, b.c, t), lerpHue(h1, h2, t, longer));
+  return fromOklab(lab.l, lab.a, lab.b, alpha);
+}
+
+/**
+ * Mixes two colors in an interpolation space.
+ *
+ * @param {Color} from - Color at t = 0
+ * @param {Color} to - Color at t = 1
+ * @param {number} t - Position between the colors (0-1)
+ * @param {GradientInterpolation} interpolation - Color space to mix in
+ * @returns {Color} Mixed color (opacity mixed too when either color is translucent)
+ */
+export function interpolateColor(from: Color, to: Color, t: number, interpolation: GradientInterpolation): Color {
+  const translucent = from.alpha !== undefined || to.alpha !== undefined;
+  const alpha = translucent ? lerp(from.alpha ?? 1, to.alpha ?? 1, t) : undefined;
+  return INTERPOLATORS[interpolation](from, to, t, alpha);
+}
+
+/**
+ * Samples evenly spaced colors along a gradient, from its first stop to
+ * its last one.
+ *
+ * @param {Color[]} stops - Gradient stops (at least one)
+ * @param {number} count - Number of colors (at least 2)
+ * @param {GradientInterpolation} interpolation - Color space to mix in
+ * @returns {Color[]} `count` colors, the first and last being the end stops
+ */
+export function sampleGradient(stops: Color[], count: number, interpolation: GradientInterpolation): Color[] {
+  if (stops.length === 1) return Array.from({ length: count }, () => ({ ...stops[0] }));
+
+  const segments = stops.length - 1;
+  return Array.from({ length: count }, (_, idx) => {
+    const position = (idx / (count - 1)) * segments;
+    const segment = Math.min(Math.floor(position), segments - 1);
+    return interpolateColor(stops[segment], stops[segment + 1], position - segment, interpolation);
+  });
+}
+
+// Colors of the sampled stops used for fallbacks and SVG
+function denseStops(gradient: Gradient): Color[] {
+  const count = (gradient.stops.length - 1) * SAMPLES_PER_SEGMENT + 1;
+  return sampleGradient(gradient.stops, count, gradient.interpolation);
+}
+
+// Color as written in CSS: Display P3 for wide-gamut colors, HEX otherwise
+function cssColor(color: Color): string {
+  return formatDisplayP3(color) ?? colorToHex(color);
+}
+
+// CSS interpolation method of each space
+const CSS_INTERPOLATION: Record<GradientInterpolation, string> = {
+  'srgb': 'in srgb',
+  'srgb-linear': 'in srgb-linear',
+  'oklab': 'in oklab',
+  'oklch-shorter': 'in oklch',
+  'oklch-longer': 'in oklch longer hue',
+  'hsl': 'in hsl',
+};
+
+// CSS gradient function with a prelude (direction, interpolation) and colors
+function cssGradient(gradient: Gradient, colors: string[], interpolation?: string): string {
+  const prelude = {
+    linear: `${gradient.angle}deg`,
+    radial: 'circle',
+    conic: `from ${gradient.angle}deg`,
+  }[gradient.shape];
+
+  return `${gradient.shape}-gradient(${[prelude, interpolation].filter(Boolean).join(' ')}, ${colors.join(', ')})`;
+}
+
+/**
+ * CSS gradient in sampled sRGB stops, for the preview and as fallback:
+ * it looks the same in every browser.
+ *
+ * @param {Gradient} gradient - Gradient to write
+ * @returns {string} CSS gradient function (e.g. "linear-gradient(90deg, #ff0000, ...)")
+ */
+export function gradientToFallbackCSS(gradient: Gradient): string {
+  return cssGradient(gradient, denseStops(gradient).map(colorToHex));
+}
+
+/**
+ * CSS gradient using the interpolation method of CSS Color 4.
+ *
+ * @param {Gradient} gradient - Gradient to write
+ * @returns {string} CSS gradient function (e.g. "linear-gradient(90deg in oklch, #ff0000, #0000ff)")
+ */
+export function gradientToCSS(gradient: Gradient): string {
+  return cssGradient(gradient, gradient.stops.map(cssColor), CSS_INTERPOLATION[gradient.interpolation]);
+}
+
+/**
+ * SVG document drawing a gradient. SVG interpolates in sRGB, so the
+ * gradient is written with sampled stops. Radial gradients become a
+ * <radialGradient>; linear and conic ones a <linearGradient> (SVG has no
+ * conic gradients), at the gradient's angle.
+ *
+ * @param {Gradient} gradient - Gradient to write
+ * @param {number} width - Image width in pixels (optional)
+ * @param {number} height - Image height in pixels (optional)
+ * @returns {string} SVG document
+ */
+export function gradientToSVG(gradient: Gradient, width = 800, height = 200): string {
+  const colors = denseStops(gradient);
+  const stops = colors.map((color, idx) => {
+    const offset = ((idx / (colors.length - 1)) * 100).toFixed(2);
+    const opacity = color.alpha !== undefined ? ` stop-opacity="${color.alpha}"` : '';
+    return `    <stop offset="${offset}%" stop-color="${color.hex}"${opacity} />`;
+  }).join('\n');
+
+  // CSS angles start at the top and turn clockwise; SVG rotates around the center
+  const definition = gradient.shape === 'radial'
+    ? `  <radialGradient id="gradient">\n${stops}\n  </radialGradient>`
+    : `  <linearGradient id="gradient" gradientTransform="rotate(${gradient.angle - 90} 0.5 0.5)">\n${stops}\n  </linearGradient>`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs>
+${definition}
+  </defs>
+  <rect width="${width}" height="${height}" fill="url(#gradient)" />
+</svg>
+`;
+}
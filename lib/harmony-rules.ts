@@ -0,0 +1,207 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Harmony Rules Library
+ * December 2025
+ *
+ * Custom harmony rules defined by the user: lists of hue offsets,
+ * lightness steps and saturation multipliers that are used like the
+ * built-in harmony modes.
+ *
+ * Rules are:
+ * - Created and validated with createHarmonyRule
+ * - Saved in localStorage so they survive reloads
+ * - Exported and imported as JSON files, to share them between people
+ *
+ * Invalid rules throw a HarmonyRuleError whose reason tells what is
+ * wrong, so the UI can explain it in the user's language.
+ */
+
+import { HarmonyRule } from '@/types/color.types';
+
+/**
+ * Why a harmony rule could not be created or imported.
+ * - empty-name: the rule has no name
+ * - empty-list: a list of values is empty
+ * - invalid-value: a value is not a number or is out of range
+ * - invalid-file: an imported file is not a harmony rules JSON file
+ */
+export type HarmonyRuleErrorReason = 'empty-name' | 'empty-list' | 'invalid-value' | 'invalid-file';
+
+/**
+ * Error thrown for harmony rules that cannot be created or imported.
+ *
+ * @property {HarmonyRuleErrorReason} reason - What is wrong with the rule
+ * @property {string} detail - The part at fault (e.g. the value "abc")
+ */
+export class HarmonyRuleError extends Error {
+  readonly reason: HarmonyRuleErrorReason;
+  readonly detail: string;
+
+  constructor(reason: HarmonyRuleErrorReason, detail: string) {
+    super(`Invalid harmony rule (${reason}): ${detail}`);
+    this.name = 'HarmonyRuleError';
+    this.reason = reason;
+    this.detail = detail;
+  }
+}
+
+// Allowed range of the values of each list
+const LIMITS = {
+  hues: [-360, 360],
+  lightness: [-100, 100],
+  saturation: [0, 2],
+} as const;
+
+// localStorage key of the saved rules
+const STORAGE_KEY = 'harmonyRules';
+
+// Version written to exported files
+const FILE_VERSION = 1;
+
+let ruleCounter = 0;
+
+// Check that a list is non-empty and every value is a number within range
+function checkList(values: unknown, limits: readonly [number, number]): number[] {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new HarmonyRuleError('empty-list', '');
+  }
+
+  return values.map(value => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < limits[0] || value > limits[1]) {
+      throw new HarmonyRuleError('invalid-value', String(value));
+    }
+    return value;
+  });
+}
+
+/**
+ * Creates a harmony rule, checking every value.
+ *
+ * @param {string} name - Name shown in the harmony selector
+ * @param {number[]} hues - Hue offsets in degrees (-360 to 360)
+ * @param {number[]} lightness - Lightness shifts in percentage points (-100 to 100)
+ * @param {number[]} saturation - Saturation multipliers (0 to 2)
+ * @param {string} id - Identifier to keep when replacing a rule (optional, new one by default)
+ * @returns {HarmonyRule} New rule
+ * @throws {HarmonyRuleError} If the name is empty or a list is empty or has invalid values
+ */
+export function createHarmonyRule(
+  name: string,
+  hues: number[],
+  lightness: number[],
+  saturation: number[],
+  id?: string
+): HarmonyRule {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new HarmonyRuleError('empty-name', '');
+  }
+
+  return {
+    id: id ?? `rule-${Date.now().toString(36)}-${ruleCounter++}`,
+    name: trimmed,
+    hues: checkList(hues, LIMITS.hues),
+    lightness: checkList(lightness, LIMITS.lightness),
+    saturation: checkList(saturation, LIMITS.saturation)
+  };
+}
+
+/**
+ * Reads a comma- or space-separated list of numbers, as typed in the editor.
+ *
+ * @param {string} text - Values such as "0, 120, 240"
+ * @returns {number[]} Parsed values (empty when nothing is typed)
+ * @throws {HarmonyRuleError} If a value is not a number
+ */
+export function parseValueList(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(token => {
+      const value = Number(token);
+      if (!Number.isFinite(value)) {
+        throw new HarmonyRuleError('invalid-value', token);
+      }
+      return value;
+    });
+}
+
+/**
+ * Writes harmony rules as JSON, without their ids.
+ *
+ * @param {HarmonyRule[]} rules - Rules to write
+ * @returns {string} JSON text ({version, rules})
+ */
+export function serializeHarmonyRules(rules: HarmonyRule[]): string {
+  return JSON.stringify(
+    {
+      version: FILE_VERSION,
+      rules: rules.map(({ name, hues, lightness, saturation }) => ({ name, hues, lightness, saturation }))
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads harmony rules from JSON written by serializeHarmonyRules.
+ * A bare array of rules is accepted too. Every rule gets a new id.
+ *
+ * @param {string} json - JSON text
+ * @returns {HarmonyRule[]} Rules in the file
+ * @throws {HarmonyRuleError} If the text is not a rules file or a rule is invalid
+ */
+export function parseHarmonyRules(json: string): HarmonyRule[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new HarmonyRuleError('invalid-file', '');
+  }
+
+  const entries = Array.isArray(data) ? data : (data as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(entries)) {
+    throw new HarmonyRuleError('invalid-file', '');
+  }
+
+  return entries.map(entry => {
+    if (typeof entry !== 'object' || entry === null || typeof entry.name !== 'string') {
+      throw new HarmonyRuleError('invalid-file', '');
+    }
+    return createHarmonyRule(entry.name, entry.hues, entry.lightness, entry.saturation);
+  });
+}
+
+/**
+ * Loads the rules saved in this browser.
+ *
+ * @returns {HarmonyRule[]} Saved rules (empty when none are saved or they cannot be read)
+ */
+export function loadHarmonyRules(): HarmonyRule[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? parseHarmonyRules(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saves rules in this browser, replacing the ones saved before.
+ *
+ * @param {HarmonyRule[]} rules - Rules to save
+ * @returns {boolean} Whether they were saved (storage can be full or blocked, e.g. in private browsing)
+ */
+export function saveHarmonyRules(rules: HarmonyRule[]): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeHarmonyRules(rules));
+    return true;
+  } catch (err) {
+    console.error('Failed to save harmony rules:', err);
+    return false;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * HCT Color Space Library
+ * December 2025
+ *
+ * HCT (hue, chroma, tone) is the color space Material Design 3 builds its
+ * palettes in: hue and chroma come from the CAM16 color appearance model
+ * and tone is CIELAB L*, so a tone difference of 40 or more always gives
+ * readable contrast, whatever the hue.
+ *
+ * Conversions:
+ * - RGB → HCT (CAM16 under the default Material viewing conditions)
+ * - HCT → RGB, reducing chroma until the color fits in sRGB while keeping
+ *   hue and tone
+ *
+ * Based on the published Material color utilities algorithms.
+ */
+
+import { rgbToXyz, xyzToRgb, linearToSrgb } from '@/lib/color-spaces';
+
+/**
+ * A color in HCT.
+ *
+ * @interface Hct
+ * @property {number} hue - CAM16 hue in degrees (0-360)
+ * @property {number} chroma - CAM16 chroma (0 to roughly 150)
+ * @property {number} tone - CIELAB lightness L* (0-100)
+ */
+export interface Hct {
+  hue: number;
+  chroma: number;
+  tone: number;
+}
+
+// CAM16 appearance correlates used while solving
+interface Cam16 {
+  hue: number;
+  chroma: number;
+  j: number;
+  m: number;
+}
+
+// D65 white point, Y = 100
+const WHITE = [95.047, 100.0, 108.883];
+
+// CIE L* of a relative luminance (0-100) and back
+function lstarFromY(y: number): number {
+  const t = y / 100;
+  return t > 216 / 24389 ? 116 * Math.cbrt(t) - 16 : (24389 / 27) * t;
+}
+
+function yFromLstar(lstar: number): number {
+  const ft = (lstar + 16) / 116;
+  const cube = ft * ft * ft;
+  return 100 * (cube > 216 / 24389 ? cube : lstar / (24389 / 27));
+}
+
+// XYZ (Y = 100) to the CAM16 RGB cone space
+function toCone(x: number, y: number, z: number): number[] {
+  return [
+    0.401288 * x + 0.650173 * y - 0.051461 * z,
+    -0.250268 * x + 1.204414 * y + 0.045854 * z,
+    -0.002079 * x + 0.048952 * y + 0.953127 * z,
+  ];
+}
+
+// Default Material viewing conditions: sRGB white, average surround,
+// mid-grey background and the illuminant not discounted
+const VIEWING = (() => {
+  const adaptingLuminance = ((200 / Math.PI) * yFromLstar(50)) / 100;
+  const backgroundLstar = 50;
+  const f = 1.0;
+  const c = 0.69;
+  const coneWhite = toCone(WHITE[0], WHITE[1], WHITE[2]);
+  const d = Math.max(0, Math.min(1, f * (1 - (1 / 3.6) * Math.exp((-adaptingLuminance - 42) / 92))));
+  const rgbD = coneWhite.map(channel => d * (100 / channel) + 1 - d);
+  const k = 1 / (5 * adaptingLuminance + 1);
+  const k4 = k * k * k * k;
+  const fl = k4 * adaptingLuminance + 0.1 * (1 - k4) * (1 - k4) * Math.cbrt(5 * adaptingLuminance);
+  const n = yFromLstar(backgroundLstar) / WHITE[1];
+  const z = 1.48 + Math.sqrt(n);
+  const nbb = 0.725 / Math.pow(n, 0.2);
+  const rgbA = coneWhite.map((channel, idx) => {
+    const factor = Math.pow((fl * rgbD[idx] * channel) / 100, 0.42);
+    return (400 * factor) / (factor + 27.13);
+  });
+  const aw = (2 * rgbA[0] + rgbA[1] + 0.05 * rgbA[2]) * nbb;
+
+  return { n, aw, nbb, ncb: nbb, c, nc: f, rgbD, fl, flRoot: Math.pow(fl, 0.25), z };
+})();
+
+// CAM16 correlates of an XYZ color (Y = 100)
+function camFromXyz(x: number, y: number, z: number): Cam16 {
+  const { rgbD, fl, nbb, aw, c, nc, ncb, n, flRoot } = VIEWING;
+  const [rA, gA, bA] = toCone(x, y, z).map((channel, idx) => {
+    const adapted = rgbD[idx] * channel;
+    const factor = Math.pow((fl * Math.abs(adapted)) / 100, 0.42);
+    return (Math.sign(adapted) * 400 * factor) / (factor + 27.13);
+  });
+
+  const a = (11 * rA - 12 * gA + bA) / 11;
+  const b = (rA + gA - 2 * bA) / 9;
+  const u = (20 * rA + 20 * gA + 21 * bA) / 20;
+  const p2 = (40 * rA + 20 * gA + bA) / 20;
+
+  const angle = (Math.atan2(b, a) * 180) / Math.PI;
+  const hue = angle < 0 ? angle + 360 : angle >= 360 ? angle - 360 : angle;
+  const j = 100 * Math.pow((p2 * nbb) / aw, c * VIEWING.z);
+
+  const huePrime = hue < 20.14 ? hue + 360 : hue;
+  const eHue = 0.25 * (Math.cos((huePrime * Math.PI) / 180 + 2) + 3.8);
+  const p1 = (50000 / 13) * eHue * nc * ncb;
+  const t = (p1 * Math.hypot(a, b)) / (u + 0.305);
+  const alpha = Math.pow(1.64 - Math.pow(0.29, n), 0.73) * Math.pow(t, 0.9);
+  const chroma = alpha * Math.sqrt(j / 100);
+
+  return { hue, chroma, j, m: chroma * flRoot };
+}
+
+// CAM16 correlates of an 8-bit sRGB color
+function camFromRgb(r: number, g: number, b: number): Cam16 {
+  const { x, y, z } = rgbToXyz(r, g, b);
+  return camFromXyz(x * 100, y * 100, z * 100);
+}
+
+// XYZ (Y = 100) of a CAM16 color given by lightness J, chroma and hue
+function xyzFromJch(j: number, chroma: number, hue: number): number[] {
+  const { n, aw, nbb, ncb, c, nc, rgbD, fl, z } = VIEWING;
+  const alpha = chroma === 0 || j === 0 ? 0 : chroma / Math.sqrt(j / 100);
+  const t = Math.pow(alpha / Math.pow(1.64 - Math.pow(0.29, n), 0.73), 1 / 0.9);
+  const hRad = (hue * Math.PI) / 180;
+
+  const eHue = 0.25 * (Math.cos(hRad + 2) + 3.8);
+  const ac = aw * Math.pow(j / 100, 1 / c / z);
+  const p1 = eHue * (50000 / 13) * nc * ncb;
+  const p2 = ac / nbb;
+  const hSin = Math.sin(hRad);
+  const hCos = Math.cos(hRad);
+
+  const gamma = (23 * (p2 + 0.305) * t) / (23 * p1 + 11 * t * hCos + 108 * t * hSin);
+  const a = gamma * hCos;
+  const b = gamma * hSin;
+
+  const [rF, gF, bF] = [
+    (460 * p2 + 451 * a + 288 * b) / 1403,
+    (460 * p2 - 891 * a - 261 * b) / 1403,
+    (460 * p2 - 220 * a - 6300 * b) / 1403,
+  ].map((adapted, idx) => {
+    const base = Math.max(0, (27.13 * Math.abs(adapted)) / (400 - Math.abs(adapted)));
+    return (Math.sign(adapted) * (100 / fl) * Math.pow(base, 1 / 0.42)) / rgbD[idx];
+  });
+
+  return [
+    1.86206786 * rF - 1.01125463 * gF + 0.14918677 * bF,
+    0.38752654 * rF + 0.62144744 * gF - 0.00897398 * bF,
+    -0.0158415 * rF - 0.03412294 * gF + 1.04996444 * bF,
+  ];
+}
+
+// CAM16-UCS distance between two colors
+function camDistance(cam1: Cam16, cam2: Cam16): number {
+  const ucs = ({ j, m, hue }: Cam16) => {
+    const mstar = (1 / 0.0228) * Math.log1p(0.0228 * m);
+    const hRad = (hue * Math.PI) / 180;
+    return [(1.7 * j) / (1 + 0.007 * j), mstar * Math.cos(hRad), mstar * Math.sin(hRad)];
+  };
+  const [j1, a1, b1] = ucs(cam1);
+  const [j2, a2, b2] = ucs(cam2);
+  return 1.41 * Math.pow(Math.hypot(j1 - j2, a1 - a2, b1 - b2), 0.63);
+}
+
+// Grey of a tone
+function greyOfTone(tone: number): { r: number; g: number; b: number } {
+  const value = linearToSrgb(yFromLstar(tone) / 100);
+  return { r: value, g: value, b: value };
+}
+
+// sRGB color with the given hue and chroma whose tone is closest to the
+// target, or null when no displayable color keeps hue and chroma
+function findByJ(hue: number, chroma: number, tone: number): { r: number; g: number; b: number } | null {
+  let low = 0;
+  let high = 100;
+  let bestDeltaL = 1000;
+  let bestDeltaE = 1000;
+  let best: { r: number; g: number; b: number } | null = null;
+
+  while (Math.abs(low - high) > 0.01) {
+    const mid = low + (high - low) / 2;
+    const [x, y, z] = xyzFromJch(mid, chroma, hue);
+    const clipped = xyzToRgb(x / 100, y / 100, z / 100);
+    const clippedCam = camFromRgb(clipped.r, clipped.g, clipped.b);
+    const clippedXyz = rgbToXyz(clipped.r, clipped.g, clipped.b);
+    const clippedTone = lstarFromY(clippedXyz.y * 100);
+    const deltaL = Math.abs(tone - clippedTone);
+
+    if (deltaL < 0.2) {
+      // Clipping may have moved the color: keep it only if it still has the hue and chroma
+      const [ux, uy, uz] = xyzFromJch(clippedCam.j, clippedCam.chroma, hue);
+      const deltaE = camDistance(clippedCam, camFromXyz(ux, uy, uz));
+      if (deltaE <= 1 && deltaE <= bestDeltaE) {
+        bestDeltaL = deltaL;
+        bestDeltaE = deltaE;
+        best = clipped;
+      }
+    }
+
+    if (bestDeltaL === 0 && bestDeltaE === 0) break;
+
+    if (clippedTone < tone) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Converts RGB to HCT.
+ *
+ * @param {number} r - Red component (0-255)
+ * @param {number} g - Green component (0-255)
+ * @param {number} b - Blue component (0-255)
+ * @returns {Hct} Hue, chroma and tone
+ */
+export function rgbToHct(r: number, g: number, b: number): Hct {
+  const cam = camFromRgb(r, g, b);
+  return { hue: cam.hue, chroma: cam.chroma, tone: lstarFromY(rgbToXyz(r, g, b).y * 100) };
+}
+
+/**
+ * Converts HCT to RGB.
+ *
+ * Hue and tone are kept; chroma is reduced (binary search) when the
+ * requested one does not fit in sRGB at that tone.
+ *
+ * @param {number} hue - Hue in degrees
+ * @param {number} chroma - Requested chroma
+ * @param {number} tone - Tone (0-100)
+ * @returns {{r: number, g: number, b: number}} RGB values (0-255)
+ */
+export function hctToRgb(hue: number, chroma: number, tone: number): { r: number; g: number; b: number } {
+  const h = ((hue % 360) + 360) % 360;
+  if (chroma < 1 || Math.round(tone) <= 0 || Math.round(tone) >= 100) {
+    return greyOfTone(tone);
+  }
+
+  const exact = findByJ(h, chroma, tone);
+  if (exact) return exact;
+
+  let low = 0;
+  let high = chroma;
+  let answer: { r: number; g: number; b: number } | null = null;
+
+  while (high - low >= 0.4) {
+    const mid = low + (high - low) / 2;
+    const candidate = findByJ(h, mid, tone);
+    if (candidate) {
+      answer = candidate;
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return answer ?? greyOfTone(tone);
+}
@@ -0,0 +1,168 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Material Scheme Library
+ * December 2025
+ *
+ * Builds Material Design 3 dynamic color from a seed color, the way
+ * Android does for Material You:
+ * - Six HCT tonal palettes (primary, secondary, tertiary, neutral,
+ *   neutral-variant and error), each a single hue and chroma at tones
+ *   0-100
+ * - A light and a dark scheme assigning a tone of those palettes to every
+ *   Material color role (primary, onPrimary, primaryContainer, ...)
+ *
+ * Palette chromas follow the Material core palette: primary keeps the
+ * seed's chroma (at least 48), tertiary is rotated 60° and error is a
+ * fixed red.
+ */
+
+import { Color } from '@/types/color.types';
+import { fromRgb } from '@/lib/color-value';
+import { hctToRgb, rgbToHct } from '@/lib/hct';
+
+/**
+ * Tones kept in each tonal palette, darkest first.
+ */
+export const MATERIAL_TONES = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 100];
+
+/**
+ * Tonal palettes of a Material scheme.
+ */
+export type MaterialPaletteName = 'primary' | 'secondary' | 'tertiary' | 'neutral' | 'neutral-variant' | 'error';
+
+/**
+ * Material color roles, named as in the Material Design 3 specification.
+ */
+export type MaterialRole =
+  | 'primary' | 'onPrimary' | 'primaryContainer' | 'onPrimaryContainer'
+  | 'secondary' | 'onSecondary' | 'secondaryContainer' | 'onSecondaryContainer'
+  | 'tertiary' | 'onTertiary' | 'tertiaryContainer' | 'onTertiaryContainer'
+  | 'error' | 'onError' | 'errorContainer' | 'onErrorContainer'
+  | 'background' | 'onBackground' | 'surface' | 'onSurface'
+  | 'surfaceVariant' | 'onSurfaceVariant' | 'outline' | 'outlineVariant'
+  | 'shadow' | 'scrim' | 'inverseSurface' | 'inverseOnSurface' | 'inversePrimary';
+
+/**
+ * One HCT tonal palette.
+ *
+ * @interface MaterialTonalPalette
+ * @property {MaterialPaletteName} name - Palette name
+ * @property {number} hue - HCT hue shared by every tone
+ * @property {number} chroma - Requested HCT chroma (lowered where a tone cannot reach it)
+ * @property {{tone: number, color: Color}[]} tones - Colors at MATERIAL_TONES
+ */
+export interface MaterialTonalPalette {
+  name: MaterialPaletteName;
+  hue: number;
+  chroma: number;
+  tones: { tone: number; color: Color }[];
+}
+
+/**
+ * Full Material color scheme of a seed color.
+ *
+ * @interface MaterialScheme
+ * @property {Color} seed - Color the scheme was built from
+ * @property {MaterialTonalPalette[]} palettes - The six tonal palettes
+ * @property {Record<MaterialRole, Color>} light - Light theme roles
+ * @property {Record<MaterialRole, Color>} dark - Dark theme roles
+ */
+export interface MaterialScheme {
+  seed: Color;
+  palettes: MaterialTonalPalette[];
+  light: Record<MaterialRole, Color>;
+  dark: Record<MaterialRole, Color>;
+}
+
+/**
+ * Palette and tones of every role, as [palette, light tone, dark tone].
+ */
+export const MATERIAL_ROLES: Record<MaterialRole, [MaterialPaletteName, number, number]> = {
+  primary: ['primary', 40, 80],
+  onPrimary: ['primary', 100, 20],
+  primaryContainer: ['primary', 90, 30],
+  onPrimaryContainer: ['primary', 10, 90],
+  secondary: ['secondary', 40, 80],
+  onSecondary: ['secondary', 100, 20],
+  secondaryContainer: ['secondary', 90, 30],
+  onSecondaryContainer: ['secondary', 10, 90],
+  tertiary: ['tertiary', 40, 80],
+  onTertiary: ['tertiary', 100, 20],
+  tertiaryContainer: ['tertiary', 90, 30],
+  onTertiaryContainer: ['tertiary', 10, 90],
+  error: ['error', 40, 80],
+  onError: ['error', 100, 20],
+  errorContainer: ['error', 90, 30],
+  onErrorContainer: ['error', 10, 90],
+  background: ['neutral', 99, 10],
+  onBackground: ['neutral', 10, 90],
+  surface: ['neutral', 99, 10],
+  onSurface: ['neutral', 10, 90],
+  surfaceVariant: ['neutral-variant', 90, 30],
+  onSurfaceVariant: ['neutral-variant', 30, 80],
+  outline: ['neutral-variant', 50, 60],
+  outlineVariant: ['neutral-variant', 80, 30],
+  shadow: ['neutral', 0, 0],
+  scrim: ['neutral', 0, 0],
+  inverseSurface: ['neutral', 20, 90],
+  inverseOnSurface: ['neutral', 95, 20],
+  inversePrimary: ['primary', 80, 40],
+};
+
+// Color of a palette hue and chroma at a tone
+function toneColor(hue: number, chroma: number, tone: number): Color {
+  const rgb = hctToRgb(hue, chroma, tone);
+  return fromRgb(rgb.r, rgb.g, rgb.b);
+}
+
+/**
+ * Builds an HCT tonal palette.
+ *
+ * @param {MaterialPaletteName} name - Palette name
+ * @param {number} hue - HCT hue
+ * @param {number} chroma - HCT chroma
+ * @returns {MaterialTonalPalette} Palette with a color at each of MATERIAL_TONES
+ */
+export function generateTonalPalette(name: MaterialPaletteName, hue: number, chroma: number): MaterialTonalPalette {
+  return {
+    name,
+    hue,
+    chroma,
+    tones: MATERIAL_TONES.map(tone => ({ tone, color: toneColor(hue, chroma, tone) })),
+  };
+}
+
+/**
+ * Builds the Material tonal palettes and light and dark schemes of a seed
+ * color.
+ *
+ * @param {Color} seed - Seed color
+ * @returns {MaterialScheme} Palettes and both schemes
+ */
+export function generateMaterialScheme(seed: Color): MaterialScheme {
+  const { hue, chroma } = rgbToHct(seed.r, seed.g, seed.b);
+
+  const palettes = [
+    generateTonalPalette('primary', hue, Math.max(48, chroma)),
+    generateTonalPalette('secondary', hue, 16),
+    generateTonalPalette('tertiary', hue + 60, 24),
+    generateTonalPalette('neutral', hue, 4),
+    generateTonalPalette('neutral-variant', hue, 8),
+    generateTonalPalette('error', 25, 84),
+  ];
+
+  const byName = new Map(palettes.map(palette => [palette.name, palette]));
+  const scheme = (theme: 'light' | 'dark') => {
+    const roles = {} as Record<MaterialRole, Color>;
+    (Object.keys(MATERIAL_ROLES) as MaterialRole[]).forEach(role => {
+      const [name, lightTone, darkTone] = MATERIAL_ROLES[role];
+      const palette = byName.get(name)!;
+      roles[role] = toneColor(palette.hue, palette.chroma, theme === 'light' ? lightTone : darkTone);
+    });
+    return roles;
+  };
+
+  return { seed, palettes, light: scheme('light'), dark: scheme('dark') };
+}
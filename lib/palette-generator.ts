@@ -0,0 +1,92 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Palette Generator Library
+ * December 2025
+ *
+ * Builds base colors without an image, from seeded random draws:
+ * - Hues follow the harmony mode (built in or a custom rule): the base
+ *   colors cycle through the hues the harmony would generate around a
+ *   random anchor hue
+ * - OKLCH lightness and chroma are drawn within the given ranges, then the
+ *   color is gamut-mapped into sRGB (which may lower its chroma)
+ * - Locked colors keep their place and value; the anchor hue is taken from
+ *   the first locked color with a hue, so new colors stay in harmony with it
+ *
+ * Harmony colors are then generated from these base colors exactly as for
+ * extracted ones.
+ */
+
+import { Color, GeneratorOptions, HarmonyMode, HarmonyRule } from '@/types/color.types';
+import { harmonyHueOffsets } from '@/lib/color-algorithms';
+import { fromRgb, colorToOklab } from '@/lib/color-value';
+import { gamutMapOklch, oklabToOklch } from '@/lib/color-spaces';
+import { createRandom } from '@/lib/random';
+
+/**
+ * Default generator settings. `seed` defaults to a random one, so it is
+ * not listed.
+ */
+export const DEFAULT_GENERATOR_OPTIONS = {
+  colorCount: 5,
+  lightnessRange: [35, 85] as [number, number],
+  chromaRange: [0.05, 0.2] as [number, number],
+};
+
+// Below this OKLCH chroma a locked color has no usable hue to anchor on
+const ANCHOR_MIN_CHROMA = 0.02;
+
+// Hue offsets the base colors cycle through: the anchor first, then every
+// other hue of the harmony once
+function baseHueOffsets(mode: HarmonyMode | HarmonyRule, count: number): number[] {
+  const offsets = [0, ...harmonyHueOffsets(mode, count)].map(offset => ((Math.round(offset) % 360) + 360) % 360);
+  return Array.from(new Set(offsets));
+}
+
+/**
+ * Generates base colors, keeping the locked ones.
+ *
+ * @param {Color[]} current - Current base colors; locked ones stay at their index
+ * @param {HarmonyMode | HarmonyRule} mode - Harmony the hues follow
+ * @param {GeneratorOptions} options - Generation settings (see DEFAULT_GENERATOR_OPTIONS)
+ * @returns {Color[]} `colorCount` colors (more when a locked color sits beyond that count)
+ */
+export function generateBaseColors(
+  current: Color[],
+  mode: HarmonyMode | HarmonyRule,
+  options: GeneratorOptions = {}
+): Color[] {
+  const { colorCount, lightnessRange, chromaRange, seed } = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+  const random = createRandom(seed);
+  const lastLocked = current.reduce((last, color, idx) => (color.locked ? idx : last), -1);
+  const count = Math.max(colorCount, lastLocked + 1);
+  const offsets = baseHueOffsets(mode, count);
+
+  // Drawn first even when a locked color sets the anchor, so the same seed
+  // gives the same lightness and chroma draws
+  let anchor = random() * 360;
+  const anchorIndex = current.findIndex((color, idx) =>
+    idx < count && color.locked && oklchOf(color).c >= ANCHOR_MIN_CHROMA
+  );
+  if (anchorIndex >= 0) {
+    anchor = oklchOf(current[anchorIndex]).h - offsets[anchorIndex % offsets.length];
+  }
+
+  const between = ([min, max]: [number, number]) => min + (max - min) * random();
+
+  return Array.from({ length: count }, (_, idx) => {
+    const lightness = between(lightnessRange) / 100;
+    const chroma = between(chromaRange);
+    if (current[idx]?.locked) return current[idx];
+
+    const { r, g, b } = gamutMapOklch(lightness, chroma, anchor + offsets[idx % offsets.length]);
+    return fromRgb(r, g, b);
+  });
+}
+
+// OKLCH value of a color
+function oklchOf(color: Color): { l: number; c: number; h: number } {
+  const lab = colorToOklab(color);
+  return oklabToOklch(lab.l, lab.a, lab.b);
+}
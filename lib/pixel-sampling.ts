@@ -0,0 +1,117 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Pixel Sampling Library
+ * December 2025
+ *
+ * Reads pixels from ImageData on a regular grid so that extraction
+ * algorithms work on a manageable number of samples. Every extractor
+ * starts from the same PixelSample, which keeps the sampled pixels,
+ * their coordinates, weights and opacity side by side.
+ *
+ * Sampling options:
+ * - mask: restricts sampling to a region of interest
+ * - alphaMode: how transparent pixels are handled (ignored, weighted
+ *   by alpha, or flattened onto white)
+ * - weighting / importance: how much each pixel matters (see lib/sampling-weights)
+ */
+
+import { AlphaMode, ExtractionOptions } from '@/types/color.types';
+import { computeImportance, DEFAULT_WEIGHTING } from '@/lib/sampling-weights';
+
+/**
+ * Pixels sampled from an image.
+ *
+ * @interface PixelSample
+ * @property {number[][]} pixels - Sampled colors as [r, g, b] (0-255), in the color space given by `gamut`
+ * @property {{x: number, y: number}[]} positions - Image coordinates of each sampled pixel
+ * @property {number[]} weights - How much each sampled pixel counts during extraction (> 0), importance included
+ * @property {number[]} importance - Importance of each sampled pixel from the weighting mode (0.1-1, 1 when uniform)
+ * @property {number[]} alphas - Opacity of each sampled pixel (0-1)
+ * @property {number} width - Width of the source image
+ * @property {number} height - Height of the source image
+ * @property {PredefinedColorSpace} gamut - Color space of the pixel values (sRGB, or Display P3 for wide-gamut images)
+ */
+export interface PixelSample {
+  pixels: number[][];
+  positions: { x: number; y: number }[];
+  weights: number[];
+  importance: number[];
+  alphas: number[];
+  width: number;
+  height: number;
+  gamut: PredefinedColorSpace;
+}
+
+/**
+ * Sampling-related subset of the extraction options.
+ */
+export type SampleOptions = Pick<ExtractionOptions, 'mask' | 'alphaMode' | 'weighting' | 'importance'>;
+
+// Default handling of transparent pixels
+export const DEFAULT_ALPHA_MODE: AlphaMode = 'ignore';
+
+/**
+ * Samples every `stride`-th pixel of an image on both axes.
+ *
+ * Transparent pixels are handled according to `alphaMode`:
+ * - ignore: only fully opaque pixels are sampled
+ * - weight: every visible pixel is sampled and counts in proportion to its alpha
+ * - flatten: pixels are composited onto white and count fully
+ *
+ * Weights are then multiplied by the importance of each pixel according
+ * to the weighting mode.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {number} stride - Distance in pixels between samples (>= 1)
+ * @param {SampleOptions} options - Region mask, alpha handling and weighting (optional)
+ * @returns {PixelSample} Sampled pixels with their positions, weights and opacity
+ */
+export function samplePixels(imageData: ImageData, stride: number, options: SampleOptions = {}): PixelSample {
+  const { data, width, height } = imageData;
+  const { mask, alphaMode = DEFAULT_ALPHA_MODE, weighting = DEFAULT_WEIGHTING } = options;
+  const step = Math.max(1, Math.round(stride));
+  const pixels: number[][] = [];
+  const positions: { x: number; y: number }[] = [];
+  const weights: number[] = [];
+  const alphas: number[] = [];
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (mask && !mask[y * width + x]) continue;
+
+      const i = (y * width + x) * 4;
+      if (i >= data.length) continue;
+
+      const alpha = data[i + 3] / 255;
+      let rgb = [data[i], data[i + 1], data[i + 2]];
+
+      switch (alphaMode) {
+        case 'ignore':
+          if (alpha < 1) continue;
+          break;
+
+        case 'weight':
+          if (alpha === 0) continue;
+          break;
+
+        case 'flatten':
+          rgb = rgb.map(c => Math.round(c * alpha + 255 * (1 - alpha)));
+          break;
+      }
+
+      pixels.push(rgb);
+      positions.push({ x, y });
+      weights.push(alphaMode === 'weight' ? alpha : 1);
+      alphas.push(alphaMode === 'flatten' ? 1 : alpha);
+    }
+  }
+
+  const importance = computeImportance(imageData, positions, step, weighting, options.importance);
+  importance.forEach((value, idx) => {
+    weights[idx] *= value;
+  });
+
+  return { pixels, positions, weights, importance, alphas, width, height, gamut: imageData.colorSpace ?? 'srgb' };
+}
@@ -0,0 +1,464 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Color Quantizers Library
+ * December 2025
+ *
+ * Deterministic alternatives to k-means for extracting dominant colors:
+ * - Median cut (Heckbert, 1982): recursively splits the box of sampled
+ *   colors at the median of its widest channel
+ * - Octree quantization (Gervautz & Purgathofer, 1988): builds an RGB
+ *   octree and merges the least populated leaves
+ * - Modified median cut (MMCQ, Leptonica): median cut over a 5-bit
+ *   histogram, splitting by population first and by population × volume
+ *   afterwards
+ *
+ * All quantizers share the extractor signature of extractColorsKMeans and
+ * return colors with representative positions in the image. They do not
+ * use randomness, so the same image always yields the same palette.
+ */
+
+import { Color, ExtractionOptions, ExtractionProgressCallback } from '@/types/color.types';
+import { buildPaletteColors, DEFAULT_EXTRACTION_OPTIONS } from '@/lib/color-algorithms';
+import { samplePixels, PixelSample } from '@/lib/pixel-sampling';
+
+// Resolve the requested number of colors
+function resolveColorCount(options: ExtractionOptions): number {
+  return Math.max(1, Math.round(options.colorCount ?? DEFAULT_EXTRACTION_OPTIONS.colorCount));
+}
+
+// Weighted average RGB color of a set of sampled pixels
+function averageColor(indices: number[], sample: PixelSample): number[] {
+  const sum = [0, 0, 0];
+  let total = 0;
+  indices.forEach(idx => {
+    const weight = sample.weights[idx];
+    sum[0] += sample.pixels[idx][0] * weight;
+    sum[1] += sample.pixels[idx][1] * weight;
+    sum[2] += sample.pixels[idx][2] * weight;
+    total += weight;
+  });
+  return sum.map(c => Math.round(c / total));
+}
+
+// ============================================================================
+// MEDIAN CUT
+// ============================================================================
+
+// Index splitting sorted values at their weighted median, moved to the
+// nearest change of value so identical pixels stay in the same box
+function weightedMedianCut(values: number[], weights: number[]): number {
+  const half = weights.reduce((total, weight) => total + weight, 0) / 2;
+  let median = 0;
+  for (let cumulative = 0; median < values.length - 1 && cumulative < half; median++) {
+    cumulative += weights[median];
+  }
+  median = Math.max(1, median);
+
+  for (let offset = 0; offset < values.length; offset++) {
+    const after = median + offset;
+    if (after < values.length && values[after] !== values[after - 1]) return after;
+    const before = median - offset;
+    if (before > 0 && values[before] !== values[before - 1]) return before;
+  }
+  return median;
+}
+
+/**
+ * Extracts dominant colors with Heckbert's median cut.
+ *
+ * Starts with a single box containing every sampled pixel and repeatedly
+ * splits the box with the widest channel range at the (weighted) median
+ * of that channel until there are colorCount boxes. Each box yields its
+ * weighted average.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {ExtractionOptions} options - Extraction options (colorCount, sampleStride)
+ * @param {ExtractionProgressCallback} onProgress - Progress callback (optional)
+ * @returns {Color[]} Exactly colorCount colors with their positions in the image
+ */
+export function extractColorsMedianCut(
+  imageData: ImageData,
+  options: ExtractionOptions = {},
+  onProgress?: ExtractionProgressCallback
+): Color[] {
+  const k = resolveColorCount(options);
+  const sample = samplePixels(imageData, options.sampleStride ?? DEFAULT_EXTRACTION_OPTIONS.sampleStride, options);
+  const { pixels } = sample;
+
+  if (pixels.length === 0) {
+    return buildPaletteColors([], sample, [], k);
+  }
+
+  const boxes: number[][] = [pixels.map((_, idx) => idx)];
+
+  while (boxes.length < k) {
+    let bestBox = -1;
+    let bestChannel = 0;
+    let bestRange = 0;
+
+    // Find the box with the widest channel range
+    boxes.forEach((box, boxIdx) => {
+      if (box.length < 2) return;
+
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 255;
+        let max = 0;
+        box.forEach(idx => {
+          min = Math.min(min, pixels[idx][channel]);
+          max = Math.max(max, pixels[idx][channel]);
+        });
+
+        if (max - min > bestRange) {
+          bestRange = max - min;
+          bestBox = boxIdx;
+          bestChannel = channel;
+        }
+      }
+    });
+
+    // Every remaining box holds a single color
+    if (bestBox < 0) break;
+
+    const sorted = [...boxes[bestBox]].sort((a, b) => pixels[a][bestChannel] - pixels[b][bestChannel]);
+    const median = weightedMedianCut(sorted.map(idx => pixels[idx][bestChannel]), sorted.map(idx => sample.weights[idx]));
+    boxes.splice(bestBox, 1, sorted.slice(0, median), sorted.slice(median));
+    onProgress?.(boxes.length / k);
+  }
+
+  const assignments: number[] = new Array(pixels.length);
+  boxes.forEach((box, boxIdx) => box.forEach(idx => { assignments[idx] = boxIdx; }));
+
+  return buildPaletteColors(boxes.map(box => averageColor(box, sample)), sample, assignments, k);
+}
+
+// ============================================================================
+// OCTREE
+// ============================================================================
+
+// Depth of the octree; 6 levels keep memory bounded on large photos
+const OCTREE_DEPTH = 6;
+
+interface OctreeNode {
+  level: number;
+  weight: number;
+  sum: number[];
+  children: (OctreeNode | null)[] | null;
+}
+
+// Create an octree node; nodes at the maximum depth are born as leaves
+function createOctreeNode(level: number, reducible: OctreeNode[][]): OctreeNode {
+  const node: OctreeNode = {
+    level,
+    weight: 0,
+    sum: [0, 0, 0],
+    children: level < OCTREE_DEPTH ? new Array(8).fill(null) : null,
+  };
+
+  if (node.children) {
+    reducible[level].push(node);
+  }
+
+  return node;
+}
+
+// Child index of a color at a given tree level (one bit per channel)
+function octreeChildIndex(pixel: number[], level: number): number {
+  const shift = 7 - level;
+  return (((pixel[0] >> shift) & 1) << 2) | (((pixel[1] >> shift) & 1) << 1) | ((pixel[2] >> shift) & 1);
+}
+
+/**
+ * Extracts dominant colors with octree quantization.
+ *
+ * Every sampled pixel is inserted into an RGB octree. While there are
+ * more leaves than requested colors, the least populated node on the
+ * deepest reducible level absorbs its children. Each remaining leaf
+ * yields the weighted average of the pixels it holds.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {ExtractionOptions} options - Extraction options (colorCount, sampleStride)
+ * @param {ExtractionProgressCallback} onProgress - Progress callback (optional)
+ * @returns {Color[]} Exactly colorCount colors with their positions in the image
+ */
+export function extractColorsOctree(
+  imageData: ImageData,
+  options: ExtractionOptions = {},
+  onProgress?: ExtractionProgressCallback
+): Color[] {
+  const k = resolveColorCount(options);
+  const sample = samplePixels(imageData, options.sampleStride ?? DEFAULT_EXTRACTION_OPTIONS.sampleStride, options);
+  const { pixels } = sample;
+
+  if (pixels.length === 0) {
+    return buildPaletteColors([], sample, [], k);
+  }
+
+  const reducible: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  const root = createOctreeNode(0, reducible);
+  let leafCount = 0;
+
+  // Insert pixels
+  pixels.forEach((pixel, pixelIdx) => {
+    const weight = sample.weights[pixelIdx];
+    let node = root;
+    node.weight += weight;
+
+    while (node.children) {
+      const childIdx = octreeChildIndex(pixel, node.level);
+      let child = node.children[childIdx];
+      if (!child) {
+        child = createOctreeNode(node.level + 1, reducible);
+        node.children[childIdx] = child;
+        if (!child.children) leafCount++;
+      }
+      node = child;
+      node.weight += weight;
+    }
+
+    node.sum[0] += pixel[0] * weight;
+    node.sum[1] += pixel[1] * weight;
+    node.sum[2] += pixel[2] * weight;
+  });
+
+  onProgress?.(0.5);
+
+  // Merge leaves, deepest level first, until at most k remain
+  for (let level = OCTREE_DEPTH - 1; level >= 0 && leafCount > k; level--) {
+    const candidates = reducible[level].sort((a, b) => a.weight - b.weight);
+
+    for (const node of candidates) {
+      if (leafCount <= k) break;
+
+      let merged = 0;
+      node.children!.forEach(child => {
+        if (!child) return;
+        node.sum[0] += child.sum[0];
+        node.sum[1] += child.sum[1];
+        node.sum[2] += child.sum[2];
+        merged++;
+      });
+
+      node.children = null;
+      leafCount -= merged - 1;
+    }
+  }
+
+  // Collect leaves and assign every pixel to its leaf
+  const leaves: OctreeNode[] = [];
+  const leafIndex = new Map<OctreeNode, number>();
+  const collect = (node: OctreeNode) => {
+    if (!node.children) {
+      leafIndex.set(node, leaves.length);
+      leaves.push(node);
+      return;
+    }
+    node.children.forEach(child => child && collect(child));
+  };
+  collect(root);
+
+  const assignments = pixels.map(pixel => {
+    let node = root;
+    while (node.children) {
+      node = node.children[octreeChildIndex(pixel, node.level)]!;
+    }
+    return leafIndex.get(node)!;
+  });
+
+  const colors = leaves.map(leaf => leaf.sum.map(c => Math.round(c / leaf.weight)));
+
+  return buildPaletteColors(colors, sample, assignments, k);
+}
+
+// ============================================================================
+// MODIFIED MEDIAN CUT (MMCQ)
+// ============================================================================
+
+const MMCQ_SIGBITS = 5;
+const MMCQ_RSHIFT = 8 - MMCQ_SIGBITS;
+const MMCQ_MAX_ITERATIONS = 1000;
+const MMCQ_POPULATION_FRACTION = 0.75;
+
+// Box in the quantized (5-bit) RGB histogram, bounds inclusive
+interface VBox {
+  r1: number; r2: number;
+  g1: number; g2: number;
+  b1: number; b2: number;
+}
+
+type VBoxAxis = 'r' | 'g' | 'b';
+
+// Histogram index of a quantized color
+function histogramIndex(r: number, g: number, b: number): number {
+  return (r << (2 * MMCQ_SIGBITS)) + (g << MMCQ_SIGBITS) + b;
+}
+
+// Number of histogram cells covered by a box
+function vboxVolume(vbox: VBox): number {
+  return (vbox.r2 - vbox.r1 + 1) * (vbox.g2 - vbox.g1 + 1) * (vbox.b2 - vbox.b1 + 1);
+}
+
+// Weighted number of pixels inside a box
+function vboxCount(vbox: VBox, histogram: Float64Array): number {
+  let count = 0;
+  for (let r = vbox.r1; r <= vbox.r2; r++) {
+    for (let g = vbox.g1; g <= vbox.g2; g++) {
+      for (let b = vbox.b1; b <= vbox.b2; b++) {
+        count += histogram[histogramIndex(r, g, b)];
+      }
+    }
+  }
+  return count;
+}
+
+// Whether a quantized color lies inside a box
+function vboxContains(vbox: VBox, r: number, g: number, b: number): boolean {
+  return r >= vbox.r1 && r <= vbox.r2 && g >= vbox.g1 && g <= vbox.g2 && b >= vbox.b1 && b <= vbox.b2;
+}
+
+// Split a box in two near the population median of its longest splittable axis
+function splitVBox(vbox: VBox, histogram: Float64Array): VBox[] | null {
+  const widths: Record<VBoxAxis, number> = {
+    r: vbox.r2 - vbox.r1 + 1,
+    g: vbox.g2 - vbox.g1 + 1,
+    b: vbox.b2 - vbox.b1 + 1,
+  };
+  const axes = (['r', 'g', 'b'] as VBoxAxis[])
+    .filter(axis => widths[axis] > 1)
+    .sort((a, b) => widths[b] - widths[a]);
+
+  for (const axis of axes) {
+    const lo = vbox[`${axis}1`];
+    const hi = vbox[`${axis}2`];
+
+    // Cumulative population along the axis
+    const partialSum: number[] = [];
+    let total = 0;
+    for (let i = lo; i <= hi; i++) {
+      total += vboxCount({ ...vbox, [`${axis}1`]: i, [`${axis}2`]: i }, histogram);
+      partialSum[i] = total;
+    }
+
+    const median = partialSum.findIndex(sum => sum > total / 2);
+    if (median < 0) continue;
+
+    // Cut on the side with more room, halfway between median and edge
+    const left = median - lo;
+    const right = hi - median;
+    let cut = left <= right
+      ? Math.min(hi - 1, Math.floor(median + right / 2))
+      : Math.max(lo, Math.floor(median - 1 - left / 2));
+
+    // Both halves must keep at least one pixel
+    while (cut > lo && partialSum[cut] >= total) cut--;
+    while (cut < hi - 1 && partialSum[cut] <= 0) cut++;
+    if (partialSum[cut] <= 0 || partialSum[cut] >= total) continue;
+
+    return [
+      { ...vbox, [`${axis}2`]: cut },
+      { ...vbox, [`${axis}1`]: cut + 1 },
+    ];
+  }
+
+  return null;
+}
+
+// Split boxes, highest priority first, until the target count is reached
+function splitVBoxes(
+  boxes: VBox[],
+  target: number,
+  histogram: Float64Array,
+  priority: (vbox: VBox) => number
+): VBox[] {
+  const queue = [...boxes];
+  const unsplittable: VBox[] = [];
+
+  for (let iter = 0; iter < MMCQ_MAX_ITERATIONS && queue.length > 0; iter++) {
+    if (queue.length + unsplittable.length >= target) break;
+
+    queue.sort((a, b) => priority(a) - priority(b));
+    const vbox = queue.pop()!;
+    const parts = splitVBox(vbox, histogram);
+
+    if (parts) {
+      queue.push(...parts);
+    } else {
+      unsplittable.push(vbox);
+    }
+  }
+
+  return [...queue, ...unsplittable];
+}
+
+/**
+ * Extracts dominant colors with modified median cut quantization (MMCQ).
+ *
+ * Colors are binned into a 5-bit-per-channel histogram. Boxes are split
+ * by population until 75% of the requested colors exist, then by
+ * population × volume so that sparse but wide color regions also get a
+ * swatch. Each box yields the average of the pixels it contains.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {ExtractionOptions} options - Extraction options (colorCount, sampleStride)
+ * @param {ExtractionProgressCallback} onProgress - Progress callback (optional)
+ * @returns {Color[]} Exactly colorCount colors with their positions in the image
+ */
+export function extractColorsMMCQ(
+  imageData: ImageData,
+  options: ExtractionOptions = {},
+  onProgress?: ExtractionProgressCallback
+): Color[] {
+  const k = resolveColorCount(options);
+  const sample = samplePixels(imageData, options.sampleStride ?? DEFAULT_EXTRACTION_OPTIONS.sampleStride, options);
+  const { pixels } = sample;
+
+  if (pixels.length === 0) {
+    return buildPaletteColors([], sample, [], k);
+  }
+
+  const histogram = new Float64Array(1 << (3 * MMCQ_SIGBITS));
+  const initial: VBox = { r1: 31, r2: 0, g1: 31, g2: 0, b1: 31, b2: 0 };
+
+  pixels.forEach(([r, g, b], pixelIdx) => {
+    const qr = r >> MMCQ_RSHIFT;
+    const qg = g >> MMCQ_RSHIFT;
+    const qb = b >> MMCQ_RSHIFT;
+    histogram[histogramIndex(qr, qg, qb)] += sample.weights[pixelIdx];
+    initial.r1 = Math.min(initial.r1, qr); initial.r2 = Math.max(initial.r2, qr);
+    initial.g1 = Math.min(initial.g1, qg); initial.g2 = Math.max(initial.g2, qg);
+    initial.b1 = Math.min(initial.b1, qb); initial.b2 = Math.max(initial.b2, qb);
+  });
+
+  onProgress?.(0.25);
+
+  const byPopulation = splitVBoxes(
+    [initial],
+    Math.ceil(k * MMCQ_POPULATION_FRACTION),
+    histogram,
+    vbox => vboxCount(vbox, histogram)
+  );
+  onProgress?.(0.6);
+
+  const boxes = splitVBoxes(
+    byPopulation,
+    k,
+    histogram,
+    vbox => vboxCount(vbox, histogram) * vboxVolume(vbox)
+  );
+
+  // Most populated boxes first
+  const counts = new Map(boxes.map(vbox => [vbox, vboxCount(vbox, histogram)]));
+  boxes.sort((a, b) => counts.get(b)! - counts.get(a)!);
+
+  const assignments = pixels.map(([r, g, b]) =>
+    boxes.findIndex(vbox => vboxContains(vbox, r >> MMCQ_RSHIFT, g >> MMCQ_RSHIFT, b >> MMCQ_RSHIFT))
+  );
+
+  const members: number[][] = boxes.map(() => []);
+  assignments.forEach((boxIdx, pixelIdx) => {
+    if (boxIdx >= 0) members[boxIdx].push(pixelIdx);
+  });
+
+  return buildPaletteColors(members.map(indices => averageColor(indices, sample)), sample, assignments, k);
+}
@@ -0,0 +1,46 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Random Number Utilities
+ * December 2025
+ *
+ * Seedable pseudo-random number generation. Algorithms that involve
+ * randomness (e.g. k-means centroid seeding) take a generator from here
+ * so that the same seed always reproduces the same result.
+ */
+
+/**
+ * A function returning uniformly distributed numbers in [0, 1).
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a pseudo-random generator (mulberry32).
+ *
+ * Fast 32-bit generator with good statistical quality for sampling
+ * purposes. Not suitable for cryptography.
+ *
+ * @param {number} seed - Integer seed; when omitted, Math.random is returned
+ * @returns {RandomSource} Random number generator
+ */
+export function createRandom(seed?: number): RandomSource {
+  if (seed === undefined) {
+    return Math.random;
+  }
+
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generate a random 32-bit seed
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
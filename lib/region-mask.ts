@@ -0,0 +1,137 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Region Mask Library
+ * December 2025
+ *
+ * Helpers for regions of interest drawn on the uploaded image:
+ * - Creating regions (rectangle, ellipse, freehand lasso)
+ * - Computing their bounding boxes
+ * - Rasterizing a region into a per-pixel mask used during sampling
+ *
+ * All coordinates are image pixel coordinates (naturalWidth/Height).
+ */
+
+import { Region, RegionShape } from '@/types/color.types';
+
+let regionCounter = 0;
+
+/**
+ * Creates a region with a unique id.
+ *
+ * @param {RegionShape} shape - Region shape
+ * @param {{x: number, y: number}[]} points - Corners (rectangle, ellipse) or polygon vertices (lasso)
+ * @returns {Region} New region
+ */
+export function createRegion(shape: RegionShape, points: { x: number; y: number }[]): Region {
+  regionCounter++;
+  return { id: `region-${Date.now().toString(36)}-${regionCounter}`, shape, points };
+}
+
+/**
+ * Computes the axis-aligned bounding box of a region.
+ *
+ * @param {Region} region - The region
+ * @returns {{x: number, y: number, width: number, height: number}} Bounding box
+ */
+export function getRegionBounds(region: Region): { x: number; y: number; width: number; height: number } {
+  const xs = region.points.map(p => p.x);
+  const ys = region.points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY
+  };
+}
+
+/**
+ * Whether a region is large enough to be used (at least 2×2 px and,
+ * for lassos, at least 3 vertices).
+ *
+ * @param {Region} region - The region
+ * @returns {boolean} True if the region encloses an area
+ */
+export function isValidRegion(region: Region): boolean {
+  const bounds = getRegionBounds(region);
+  const minPoints = region.shape === 'lasso' ? 3 : 2;
+  return region.points.length >= minPoints && bounds.width >= 2 && bounds.height >= 2;
+}
+
+// X coordinates where a horizontal line crosses the polygon edges
+function polygonCrossings(points: { x: number; y: number }[], y: number): number[] {
+  const crossings: number[] = [];
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > y) !== (b.y > y)) {
+      crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+    }
+  }
+
+  return crossings.sort((a, b) => a - b);
+}
+
+/**
+ * Rasterizes a region into a mask the size of the image.
+ *
+ * Pixels are tested at their centers. Lassos use the even-odd rule, so
+ * self-intersecting strokes behave like most drawing tools.
+ *
+ * @param {Region} region - The region to rasterize
+ * @param {number} width - Image width
+ * @param {number} height - Image height
+ * @returns {Uint8Array} One byte per pixel, 1 inside the region and 0 outside
+ */
+export function createRegionMask(region: Region, width: number, height: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  if (!isValidRegion(region)) return mask;
+
+  const bounds = getRegionBounds(region);
+  const top = Math.max(0, Math.floor(bounds.y));
+  const bottom = Math.min(height - 1, Math.ceil(bounds.y + bounds.height));
+
+  const fillSpan = (y: number, from: number, to: number) => {
+    const start = Math.max(0, Math.ceil(from - 0.5));
+    const end = Math.min(width - 1, Math.floor(to - 0.5));
+    if (end >= start) mask.fill(1, y * width + start, y * width + end + 1);
+  };
+
+  for (let y = top; y <= bottom; y++) {
+    const cy = y + 0.5;
+
+    switch (region.shape) {
+      case 'rectangle':
+        if (cy >= bounds.y && cy <= bounds.y + bounds.height) {
+          fillSpan(y, bounds.x, bounds.x + bounds.width);
+        }
+        break;
+
+      case 'ellipse': {
+        const rx = bounds.width / 2;
+        const ry = bounds.height / 2;
+        const dy = (cy - (bounds.y + ry)) / ry;
+        if (Math.abs(dy) <= 1) {
+          const halfSpan = rx * Math.sqrt(1 - dy * dy);
+          fillSpan(y, bounds.x + rx - halfSpan, bounds.x + rx + halfSpan);
+        }
+        break;
+      }
+
+      case 'lasso': {
+        const crossings = polygonCrossings(region.points, cy);
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+          fillSpan(y, crossings[i], crossings[i + 1]);
+        }
+        break;
+      }
+    }
+  }
+
+  return mask;
+}
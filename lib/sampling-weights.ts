@@ -0,0 +1,120 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Sampling Weights Library
+ * December 2025
+ *
+ * Computes how important each sampled pixel is, so that the subject of
+ * a photo is not drowned out by large flat backgrounds:
+ * - center: Gaussian falloff from the image center
+ * - saliency: color contrast against the image average (OKLab) combined
+ *   with local edge strength (lightness gradient)
+ * - brush: importance painted by the user on the image
+ *
+ * Importance multiplies the sampling weight of each pixel, so it shapes
+ * centroids, quantizer boxes and the representative position of every
+ * extracted color. Every pixel keeps a small minimum importance so that
+ * unimportant areas can still contribute colors.
+ */
+
+import { SamplingWeighting } from '@/types/color.types';
+import { rgbToOklab } from '@/lib/color-spaces';
+
+// Default weighting of sampled pixels
+export const DEFAULT_WEIGHTING: SamplingWeighting = 'uniform';
+
+// Importance of the least important pixels (the most important get 1)
+const IMPORTANCE_FLOOR = 0.1;
+
+// Standard deviation of the center falloff, relative to the half image size
+const CENTER_SIGMA = 0.4;
+
+// Relative contribution of edges (vs. color contrast) to saliency
+const EDGE_SHARE = 0.5;
+
+// Map raw scores (0-1) to importance (IMPORTANCE_FLOOR-1)
+function toImportance(raw: number): number {
+  return IMPORTANCE_FLOOR + (1 - IMPORTANCE_FLOOR) * Math.max(0, Math.min(1, raw));
+}
+
+// Gaussian falloff from the image center
+function centerScores(positions: { x: number; y: number }[], width: number, height: number): number[] {
+  const halfWidth = Math.max(1, width / 2);
+  const halfHeight = Math.max(1, height / 2);
+
+  return positions.map(({ x, y }) => {
+    const dx = (x - halfWidth) / halfWidth;
+    const dy = (y - halfHeight) / halfHeight;
+    return Math.exp(-(dx * dx + dy * dy) / (2 * CENTER_SIGMA * CENTER_SIGMA));
+  });
+}
+
+// Color contrast against the average color, plus lightness edges measured
+// between pixels one sampling step apart
+function saliencyScores(imageData: ImageData, positions: { x: number; y: number }[], step: number): number[] {
+  const { data, width, height } = imageData;
+
+  const labAt = (x: number, y: number) => {
+    const cx = Math.max(0, Math.min(width - 1, x));
+    const cy = Math.max(0, Math.min(height - 1, y));
+    const i = (cy * width + cx) * 4;
+    return rgbToOklab(data[i], data[i + 1], data[i + 2]);
+  };
+
+  const labs = positions.map(({ x, y }) => labAt(x, y));
+  const mean = labs.reduce(
+    (sum, lab) => ({ l: sum.l + lab.l, a: sum.a + lab.a, b: sum.b + lab.b }),
+    { l: 0, a: 0, b: 0 }
+  );
+  const count = Math.max(1, labs.length);
+  mean.l /= count;
+  mean.a /= count;
+  mean.b /= count;
+
+  const contrasts = labs.map(lab => Math.hypot(lab.l - mean.l, lab.a - mean.a, lab.b - mean.b));
+  const edges = positions.map(({ x, y }) => {
+    const gx = labAt(x + step, y).l - labAt(x - step, y).l;
+    const gy = labAt(x, y + step).l - labAt(x, y - step).l;
+    return Math.hypot(gx, gy);
+  });
+
+  const maxContrast = contrasts.reduce((max, value) => Math.max(max, value), Number.EPSILON);
+  const maxEdge = edges.reduce((max, value) => Math.max(max, value), Number.EPSILON);
+
+  return positions.map((_, idx) =>
+    (1 - EDGE_SHARE) * (contrasts[idx] / maxContrast) + EDGE_SHARE * (edges[idx] / maxEdge)
+  );
+}
+
+/**
+ * Computes the importance of each sampled pixel.
+ *
+ * @param {ImageData} imageData - Source image pixels
+ * @param {{x: number, y: number}[]} positions - Image coordinates of the sampled pixels
+ * @param {number} step - Distance in pixels between samples
+ * @param {SamplingWeighting} weighting - Weighting mode
+ * @param {Uint8Array} importance - Painted importance, required by the brush weighting (optional)
+ * @returns {number[]} Importance of each sampled pixel (0.1-1, all 1 for uniform weighting)
+ */
+export function computeImportance(
+  imageData: ImageData,
+  positions: { x: number; y: number }[],
+  step: number,
+  weighting: SamplingWeighting,
+  importance?: Uint8Array
+): number[] {
+  switch (weighting) {
+    case 'center':
+      return centerScores(positions, imageData.width, imageData.height).map(toImportance);
+
+    case 'saliency':
+      return saliencyScores(imageData, positions, step).map(toImportance);
+
+    case 'brush':
+      if (!importance) break;
+      return positions.map(({ x, y }) => toImportance(importance[y * imageData.width + x] / 255));
+  }
+
+  return positions.map(() => 1);
+}
@@ -0,0 +1,93 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Tonal Scales Library
+ * December 2025
+ *
+ * Builds Tailwind-style tonal scales: 11 steps named 50, 100, ... 900,
+ * 950 from lightest to darkest, one scale per base color.
+ *
+ * Scales are built in OKLCH so the steps look evenly spaced:
+ * - Hue stays the base color's hue on every step
+ * - Lightness follows a fixed curve, stretched on each side so the step
+ *   closest to the base color lands exactly on it (the base color itself)
+ * - Chroma is the base color's, easing off towards the lightest and
+ *   darkest steps the way hand-made scales do
+ * - Every step is gamut-mapped into sRGB
+ */
+
+import { Color } from '@/types/color.types';
+import { fromRgb, colorToOklab } from '@/lib/color-value';
+import { gamutMapOklch, oklabToOklch } from '@/lib/color-spaces';
+
+/**
+ * Step names of a scale, lightest first.
+ */
+export const SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// OKLCH lightness of each step for a scale anchored at its own curve
+const STEP_LIGHTNESS = [0.975, 0.935, 0.87, 0.79, 0.705, 0.62, 0.535, 0.45, 0.37, 0.29, 0.21];
+
+// Share of the base chroma left at the lightest and darkest steps
+const END_CHROMA = 0.3;
+
+/**
+ * Tonal scale of one base color.
+ *
+ * @interface TonalScale
+ * @property {Color} base - Color the scale was built from
+ * @property {number} baseStep - Name of the step holding the base color (e.g. 500)
+ * @property {{step: number, color: Color}[]} steps - Every step, lightest first
+ */
+export interface TonalScale {
+  base: Color;
+  baseStep: number;
+  steps: { step: number; color: Color }[];
+}
+
+// Index of the step whose curve lightness is closest to a lightness
+function closestStep(lightness: number): number {
+  return STEP_LIGHTNESS.reduce((best, value, idx) =>
+    Math.abs(value - lightness) < Math.abs(STEP_LIGHTNESS[best] - lightness) ? idx : best, 0);
+}
+
+/**
+ * Builds the 50-950 tonal scale of a color.
+ *
+ * @param {Color} base - Base color (kept as is on its closest step)
+ * @returns {TonalScale} Scale with 11 steps
+ */
+export function generateTonalScale(base: Color): TonalScale {
+  const lab = colorToOklab(base);
+  const { l, c, h } = oklabToOklch(lab.l, lab.a, lab.b);
+  const anchor = closestStep(l);
+  const last = STEP_LIGHTNESS.length - 1;
+
+  const steps = SCALE_STEPS.map((step, idx) => {
+    if (idx === anchor) {
+      return { step, color: { ...base } };
+    }
+
+    // Stretch the curve on the step's side of the anchor so it meets the base
+    const end = idx < anchor ? 0 : last;
+    const t = (STEP_LIGHTNESS[idx] - STEP_LIGHTNESS[anchor]) / (STEP_LIGHTNESS[end] - STEP_LIGHTNESS[anchor]);
+    const lightness = l + t * (STEP_LIGHTNESS[end] - l);
+    const chroma = c * (1 - (1 - END_CHROMA) * t * t);
+
+    const rgb = gamutMapOklch(lightness, chroma, h);
+    return { step, color: fromRgb(rgb.r, rgb.g, rgb.b) };
+  });
+
+  return { base, baseStep: SCALE_STEPS[anchor], steps };
+}
+
+/**
+ * Builds the tonal scale of every base color.
+ *
+ * @param {Color[]} colors - Base colors
+ * @returns {TonalScale[]} One scale per color, in the same order
+ */
+export function generateTonalScales(colors: Color[]): TonalScale[] {
+  return colors.map(generateTonalScale);
+}
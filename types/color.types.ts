@@ -11,16 +11,26 @@
 
 /**
  * Color interface representing a color in multiple color spaces.
+ * Build colors with the constructors in lib/color-value (fromRgb,
+ * fromHsl, fromHex), which keep every representation consistent.
  *
  * @interface Color
  * @property {number} r - Red component (0-255)
  * @property {number} g - Green component (0-255)
  * @property {number} b - Blue component (0-255)
- * @property {number} h - Hue (0-1)
- * @property {number} s - Saturation (0-1)
- * @property {number} l - Lightness (0-1)
- * @property {string} hex - HEX color code (e.g., "#FF5733")
+ * @property {number} h - Hue in degrees (0-360)
+ * @property {number} s - Saturation in percent (0-100)
+ * @property {number} l - Lightness in percent (0-100)
+ * @property {string} hex - HEX color code (e.g., "#ff5733")
  * @property {{x: number, y: number}} position - Optional pixel position in source image
+ * @property {number} weight - Optional share of the image covered by this color (0-1), set by extraction
+ * @property {string} regionId - Optional id of the region of interest the color was extracted from
+ * @property {number} alpha - Optional opacity (0-1); omitted for fully opaque colors
+ * @property {number} sourceIndex - Optional index of the source image the color came from (multi-image extraction)
+ * @property {{r: number, g: number, b: number}} displayP3 - Optional Display P3 value (0-1) of a color outside
+ *   the sRGB gamut; r, g, b and hex then hold its closest sRGB fallback
+ * @property {HarmonyOverride} harmony - Optional harmony settings of a base color, overriding the global ones
+ * @property {boolean} locked - Optional flag of a base color kept as is when the palette is regenerated
  */
 export interface Color {
   r: number;
@@ -31,10 +41,396 @@ export interface Color {
   l: number;
   hex: string;
   position?: { x: number; y: number };
+  weight?: number;
+  regionId?: string;
+  alpha?: number;
+  sourceIndex?: number;
+  displayP3?: { r: number; g: number; b: number };
+  harmony?: HarmonyOverride;
+  locked?: boolean;
 }
 
 /**
  * Color harmony modes based on color theory.
  * Determines how complementary colors are generated.
+ * - complementary: opposite hue
+ * - analogous: neighboring hues
+ * - triadic: three hues 120° apart
+ * - square: four hues 90° apart
+ * - tetradic: alias of square, kept for API callers that use its former name
+ * - rectangle: two complementary pairs 60° apart
+ * - split-complementary: the two hues next to the complement
+ * - double-split-complementary: the hues next to the base and next to its complement
+ * - compound: a neighboring hue plus the complement and one hue next to it
+ * - monochromatic: the base hue at several lightness and saturation levels
+ * - shades: the base hue, darker at every step
  */
-export type HarmonyMode = 'complementary' | 'analogous' | 'triadic' | 'tetradic' | 'split-complementary';
+export type HarmonyMode =
+  | 'complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'square'
+  | 'tetradic'
+  | 'rectangle'
+  | 'split-complementary'
+  | 'double-split-complementary'
+  | 'compound'
+  | 'monochromatic'
+  | 'shades';
+
+/**
+ * User-defined harmony rule, used like a built-in HarmonyMode.
+ * Each list repeats for as many colors as are generated: the n-th color
+ * takes the n-th value of every list, starting over at the end of a list.
+ *
+ * @interface HarmonyRule
+ * @property {string} id - Unique identifier
+ * @property {string} name - Name shown in the harmony selector
+ * @property {number[]} hues - Hue offsets from the base color, in degrees
+ * @property {number[]} lightness - Lightness shifts from the base color, in percentage points (-100 to 100)
+ * @property {number[]} saturation - Saturation (or chroma) multipliers (0 to 2)
+ */
+export interface HarmonyRule {
+  id: string;
+  name: string;
+  hues: number[];
+  lightness: number[];
+  saturation: number[];
+}
+
+/**
+ * Color space in which harmony colors are generated.
+ * - oklch: hue is rotated in OKLCH, keeping perceived lightness and chroma
+ *   across hues; results are gamut-mapped into sRGB
+ * - hsl: hue is rotated in HSL (legacy behavior; lightness and saturation
+ *   look uneven across hues)
+ */
+export type HarmonySpace = 'oklch' | 'hsl';
+
+/**
+ * Harmony settings of one base color, overriding the global harmony mode
+ * and ring count. Missing fields fall back to the global values.
+ *
+ * @interface HarmonyOverride
+ * @property {HarmonyMode | HarmonyRule} mode - Harmony mode or custom rule of this color
+ * @property {number} rings - Number of colors generated from this color (3-12)
+ * @property {boolean} disabled - Generate no harmony colors from this color
+ */
+export interface HarmonyOverride {
+  mode?: HarmonyMode | HarmonyRule;
+  rings?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Shape of the saturation falloff across the rings of a harmony.
+ * - linear: every ring loses the same amount
+ * - ease-in: the first rings keep most of their saturation, the last ones drop fast
+ * - ease-out: the first rings drop fast, the last ones level off
+ */
+export type FalloffCurve = 'linear' | 'ease-in' | 'ease-out';
+
+/**
+ * Options controlling how harmony colors are generated.
+ * Every field is optional; missing fields fall back to DEFAULT_HARMONY_OPTIONS.
+ *
+ * @interface HarmonyOptions
+ * @property {HarmonySpace} space - Color space of the hue rotation and lightness shifts (default: oklch)
+ * @property {number} saturation - Multiplier of the saturation (HSL) or chroma (OKLCH) of every generated color (0-2, default: 1)
+ * @property {number} falloff - Share of saturation the last ring loses (0-1, default: 0)
+ * @property {FalloffCurve} falloffCurve - How the falloff is spread over the rings (default: linear)
+ * @property {boolean} normalizeChroma - Give every base color's harmony the mean saturation or chroma of all base colors (default: false)
+ */
+export interface HarmonyOptions {
+  space?: HarmonySpace;
+  saturation?: number;
+  falloff?: number;
+  falloffCurve?: FalloffCurve;
+  normalizeChroma?: boolean;
+}
+
+/**
+ * Contrast metric used for contrast targets.
+ * - wcag2: WCAG 2 contrast ratio (e.g. 4.5 for 4.5:1)
+ * - apca: APCA lightness contrast Lc (e.g. 60)
+ */
+export type ContrastMethod = 'wcag2' | 'apca';
+
+/**
+ * Options of the palette generator, which builds base colors without an
+ * image. Every field is optional; missing fields fall back to
+ * DEFAULT_GENERATOR_OPTIONS.
+ *
+ * @interface GeneratorOptions
+ * @property {number} colorCount - Number of base colors (default: 5)
+ * @property {[number, number]} lightnessRange - Lowest and highest OKLCH lightness, in percent (default: [35, 85])
+ * @property {[number, number]} chromaRange - Lowest and highest OKLCH chroma (default: [0.05, 0.2])
+ * @property {number} seed - Seed of the random draws; the same seed, harmony and locked colors always give the same palette (random when omitted)
+ */
+export interface GeneratorOptions {
+  colorCount?: number;
+  lightnessRange?: [number, number];
+  chromaRange?: [number, number];
+  seed?: number;
+}
+
+/**
+ * Shape of a gradient, as the CSS gradient functions.
+ * - linear: along a straight line at an angle
+ * - radial: outwards from the center
+ * - conic: around the center, starting at an angle
+ */
+export type GradientShape = 'linear' | 'radial' | 'conic';
+
+/**
+ * Color space a gradient interpolates in.
+ * - srgb: gamma-encoded RGB (the CSS default; muddy midpoints)
+ * - srgb-linear: linear-light RGB (bright midpoints)
+ * - oklab: perceptually even, no hue shift
+ * - oklch-shorter / oklch-longer: perceptually even, hue turning the short or the long way round
+ * - hsl: hue, saturation and lightness (hue turning the short way round)
+ */
+export type GradientInterpolation = 'srgb' | 'srgb-linear' | 'oklab' | 'oklch-shorter' | 'oklch-longer' | 'hsl';
+
+/**
+ * A gradient through palette colors, evenly spaced.
+ *
+ * @interface Gradient
+ * @property {Color[]} stops - Colors in order (at least two)
+ * @property {GradientShape} shape - Gradient shape
+ * @property {GradientInterpolation} interpolation - Color space colors are mixed in
+ * @property {number} angle - Direction of a linear gradient, or start of a conic one, in degrees
+ */
+export interface Gradient {
+  stops: Color[];
+  shape: GradientShape;
+  interpolation: GradientInterpolation;
+  angle: number;
+}
+
+/**
+ * What the palette view shows.
+ * - harmony: base colors and their generated harmony colors
+ * - scales: a 50-950 tonal scale per base color, one row each
+ * - material: the Material 3 scheme of one base color
+ * - contrast: the contrast-targeted ramp of one base color
+ * - gradient: a gradient built from palette colors
+ */
+export type PaletteView = 'harmony' | 'scales' | 'material' | 'contrast' | 'gradient';
+
+/**
+ * Notation used to show and copy color values.
+ * - hex, rgb, hsl, hwb: sRGB notations
+ * - hsv: hue, saturation and value (not a CSS notation)
+ * - lab, lch: CIELAB and its polar form (D50 white point, as in CSS)
+ * - oklab, oklch: OKLab and its polar form
+ * - xyz: CIE XYZ (D65), written as color(xyz-d65 ...)
+ */
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'hsv' | 'hwb' | 'lab' | 'lch' | 'oklab' | 'oklch' | 'xyz';
+
+/**
+ * Color space in which extraction measures the distance between pixels.
+ * - srgb: Euclidean distance on 0-255 channels (legacy behavior)
+ * - oklab: Euclidean distance in OKLab (ΔEok)
+ * - cielab: CIEDE2000 difference in CIELAB (ΔE00)
+ */
+export type ExtractionColorSpace = 'srgb' | 'oklab' | 'cielab';
+
+/**
+ * Shape of a region of interest drawn on the image.
+ */
+export type RegionShape = 'rectangle' | 'ellipse' | 'lasso';
+
+/**
+ * Region of interest in image pixel coordinates.
+ * Rectangles and ellipses are defined by the two opposite corners of their
+ * bounding box; lassos by the vertices of a closed polygon.
+ *
+ * @interface Region
+ * @property {string} id - Unique region id
+ * @property {RegionShape} shape - Region shape
+ * @property {{x: number, y: number}[]} points - Corners (rectangle, ellipse) or polygon vertices (lasso)
+ */
+export interface Region {
+  id: string;
+  shape: RegionShape;
+  points: { x: number; y: number }[];
+}
+
+/**
+ * An image the palette is extracted from. Several images can be loaded
+ * at once; regions and painted importance belong to the image they were
+ * drawn on.
+ *
+ * @interface SourceImage
+ * @property {string} id - Unique id
+ * @property {File} file - Uploaded file
+ * @property {string} url - Object URL used to display the image
+ * @property {ImageData} imageData - Decoded pixels, once the image has been extracted (optional)
+ * @property {number} weight - How much the image counts in a merged palette (0-3, default 1)
+ * @property {Region[]} regions - Regions of interest drawn on this image
+ * @property {Uint8Array} importance - Importance painted on this image (optional)
+ */
+export interface SourceImage {
+  id: string;
+  file: File;
+  url: string;
+  imageData?: ImageData;
+  weight: number;
+  regions: Region[];
+  importance?: Uint8Array;
+}
+
+/**
+ * How the palettes of several images are presented.
+ * - merged: one palette combining every image, weighted per image
+ * - per-image: the colors of each image, one image after another
+ */
+export type PaletteMode = 'merged' | 'per-image';
+
+/**
+ * How extraction treats transparent and semi-transparent pixels.
+ * - ignore: only fully opaque pixels are sampled
+ * - weight: pixels count in proportion to their alpha
+ * - flatten: pixels are composited onto white (legacy behavior)
+ */
+export type AlphaMode = 'ignore' | 'weight' | 'flatten';
+
+/**
+ * How much each sampled pixel matters during extraction.
+ * - uniform: every pixel counts the same
+ * - center: pixels count less the further they are from the image center (Gaussian falloff)
+ * - saliency: pixels that stand out (color contrast and edges) count more
+ * - brush: pixels painted by the user count more
+ */
+export type SamplingWeighting = 'uniform' | 'center' | 'saliency' | 'brush';
+
+/**
+ * Filters that exclude pixels from extraction before any algorithm runs.
+ * Lightness and chroma are measured in OKLCH.
+ *
+ * @interface ExtractionFilters
+ * @property {boolean} excludeBackground - Skip the background connected to the image border
+ * @property {boolean} excludeNeutrals - Skip near-neutral pixels (whites, greys, blacks)
+ * @property {number} neutralChroma - Chroma below which a pixel counts as neutral (0-0.4)
+ * @property {boolean} excludeLightness - Skip pixels outside the lightness limits
+ * @property {number} minLightness - Darkest lightness kept (0-100)
+ * @property {number} maxLightness - Lightest lightness kept (0-100)
+ */
+export interface ExtractionFilters {
+  excludeBackground?: boolean;
+  excludeNeutrals?: boolean;
+  neutralChroma?: number;
+  excludeLightness?: boolean;
+  minLightness?: number;
+  maxLightness?: number;
+}
+
+/**
+ * Number of image pixels removed by each extraction filter. A pixel is
+ * attributed to the first filter that removes it, in the order below.
+ *
+ * @interface FilterStats
+ * @property {number} total - Visible pixels considered (inside the regions, if any)
+ * @property {number} background - Pixels removed as border-connected background
+ * @property {number} neutrals - Pixels removed as near-neutral
+ * @property {number} lightness - Pixels removed for being too dark or too light
+ */
+export interface FilterStats {
+  total: number;
+  background: number;
+  neutrals: number;
+  lightness: number;
+}
+
+/**
+ * Algorithm used to extract dominant colors from an image.
+ * - kmeans: k-means clustering (seeded, iterative)
+ * - median-cut: Heckbert median cut
+ * - octree: octree quantization
+ * - mmcq: modified median cut quantization (Leptonica)
+ */
+export type ExtractionAlgorithm = 'kmeans' | 'median-cut' | 'octree' | 'mmcq';
+
+/**
+ * Criterion used to pick the number of colors automatically.
+ * - silhouette: best separated clusters (simplified silhouette)
+ * - elbow: point where adding colors stops explaining much more variance
+ */
+export type ColorCountCriterion = 'silhouette' | 'elbow';
+
+/**
+ * Scores of every color count tried by the automatic color count.
+ * Scores range from 0 to 1 and higher is better for both criteria
+ * (silhouette coefficient, or share of variance explained for elbow).
+ *
+ * @interface ColorCountAnalysis
+ * @property {ColorCountCriterion} criterion - Criterion used to score each color count
+ * @property {number} colorCount - Chosen number of colors
+ * @property {{colorCount: number, score: number}[]} scores - Score of each color count tried, in increasing order
+ */
+export interface ColorCountAnalysis {
+  criterion: ColorCountCriterion;
+  colorCount: number;
+  scores: { colorCount: number; score: number }[];
+}
+
+/**
+ * Options controlling how dominant colors are extracted from an image.
+ * Every field is optional; missing fields fall back to DEFAULT_EXTRACTION_OPTIONS.
+ *
+ * @interface ExtractionOptions
+ * @property {ExtractionAlgorithm} algorithm - Extraction algorithm (default: kmeans)
+ * @property {number} colorCount - Number of colors to extract (default: 5)
+ * @property {boolean} autoColorCount - Pick the number of colors automatically instead of using colorCount (default: false, k-means only)
+ * @property {[number, number]} colorCountRange - Smallest and largest color count tried in auto mode (default: [2, 12])
+ * @property {ColorCountCriterion} colorCountCriterion - How auto mode scores each color count (default: silhouette)
+ * @property {number} sampleStride - Sample every Nth pixel on both axes (default: 4)
+ * @property {number} iterations - Number of k-means iterations (default: 15, k-means only)
+ * @property {number} minDistance - Minimum distance between extracted colors, in the units of colorSpace (default depends on the space, k-means only)
+ * @property {number} seed - Seed for centroid initialization; the same seed always gives the same palette (random when omitted, k-means only)
+ * @property {ExtractionColorSpace} colorSpace - Space used for clustering and distinctness checks (default: oklab, k-means only)
+ * @property {Region[]} regions - Regions of interest; each one is extracted separately and yields its own colors (whole image when empty)
+ * @property {Uint8Array} mask - Only pixels whose mask byte is non-zero are sampled (one byte per image pixel, row-major)
+ * @property {AlphaMode} alphaMode - Handling of transparent pixels (default: ignore)
+ * @property {ExtractionFilters} filters - Background, neutral and lightness exclusion (all off by default)
+ * @property {SamplingWeighting} weighting - How sampled pixels are weighted (default: uniform)
+ * @property {Uint8Array} importance - Painted importance, one byte per image pixel (0-255, row-major), used by the brush weighting
+ */
+export interface ExtractionOptions {
+  algorithm?: ExtractionAlgorithm;
+  colorCount?: number;
+  autoColorCount?: boolean;
+  colorCountRange?: [number, number];
+  colorCountCriterion?: ColorCountCriterion;
+  sampleStride?: number;
+  iterations?: number;
+  minDistance?: number;
+  seed?: number;
+  colorSpace?: ExtractionColorSpace;
+  regions?: Region[];
+  mask?: Uint8Array;
+  alphaMode?: AlphaMode;
+  filters?: ExtractionFilters;
+  weighting?: SamplingWeighting;
+  importance?: Uint8Array;
+}
+
+/**
+ * Result of extracting colors from an image.
+ *
+ * @interface ExtractionOutput
+ * @property {Color[]} colors - Extracted colors
+ * @property {FilterStats} filterStats - Pixels removed by each extraction filter
+ * @property {ColorCountAnalysis} colorCountAnalysis - How the number of colors was chosen (auto mode only)
+ */
+export interface ExtractionOutput {
+  colors: Color[];
+  filterStats: FilterStats;
+  colorCountAnalysis?: ColorCountAnalysis;
+}
+
+/**
+ * Receives extraction progress as a fraction between 0 and 1.
+ */
+export type ExtractionProgressCallback = (progress: number) => void;
@@ -0,0 +1,39 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Worker Message Type Definitions
+ * December 2025
+ *
+ * Messages exchanged between the main thread and the color extraction
+ * worker (workers/extraction.worker.ts).
+ */
+
+import { ExtractionOptions, ExtractionOutput } from '@/types/color.types';
+
+/**
+ * Stage the extraction worker is currently in.
+ * - decoding: turning the uploaded file into pixels
+ * - extracting: running the extraction algorithm
+ */
+export type ExtractionStage = 'decoding' | 'extracting';
+
+/**
+ * Request sent to the extraction worker.
+ *
+ * @interface ExtractionRequest
+ * @property {Blob | ImageData} source - Image file to decode, or pixels that were already decoded
+ * @property {ExtractionOptions} options - Extraction options
+ */
+export interface ExtractionRequest {
+  source: Blob | ImageData;
+  options: ExtractionOptions;
+}
+
+/**
+ * Messages posted back by the extraction worker.
+ */
+export type ExtractionWorkerMessage =
+  | { type: 'progress'; stage: ExtractionStage; progress: number }
+  | { type: 'result'; output: ExtractionOutput; imageData?: ImageData }
+  | { type: 'error'; message: string };
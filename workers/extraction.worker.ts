@@ -0,0 +1,66 @@
+/**
+ * Paleta Color - Color Palette Generator
+ * https://github.com/686f6c61/paleta-color
+ *
+ * Color Extraction Worker
+ * December 2025
+ *
+ * Dedicated Web Worker that decodes uploaded images and extracts their
+ * dominant colors away from the main thread, so the page (including the
+ * processing indicator) stays responsive on large photos.
+ *
+ * Protocol (see types/worker.types.ts):
+ * - Receives one ExtractionRequest per worker instance
+ * - Posts 'progress' messages while decoding and extracting
+ * - Posts a single 'result' (or 'error') message when done
+ *
+ * Cancellation is handled by the main thread terminating the worker.
+ */
+
+import { decodeImageData } from '@/lib/canvas-utils';
+import { extractColors } from '@/lib/color-extraction';
+import { ExtractionRequest, ExtractionWorkerMessage } from '@/types/worker.types';
+
+const worker = self as unknown as Worker;
+
+// Minimum progress step worth posting to the main thread
+const PROGRESS_STEP = 0.01;
+
+function post(message: ExtractionWorkerMessage, transfer: Transferable[] = []) {
+  worker.postMessage(message, transfer);
+}
+
+worker.addEventListener('message', async (event: MessageEvent<ExtractionRequest>) => {
+  const { source, options } = event.data;
+
+  try {
+    let imageData: ImageData;
+    let decoded = false;
+
+    if (source instanceof ImageData) {
+      imageData = source;
+    } else {
+      post({ type: 'progress', stage: 'decoding', progress: 0 });
+      imageData = await decodeImageData(source);
+      decoded = true;
+    }
+
+    let lastProgress = -1;
+    post({ type: 'progress', stage: 'extracting', progress: 0 });
+
+    const output = extractColors(imageData, options, (progress) => {
+      if (progress - lastProgress < PROGRESS_STEP && progress < 1) return;
+      lastProgress = progress;
+      post({ type: 'progress', stage: 'extracting', progress });
+    });
+
+    // Decoded pixels are handed over to the main thread without copying
+    if (decoded) {
+      post({ type: 'result', output, imageData }, [imageData.data.buffer]);
+    } else {
+      post({ type: 'result', output });
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});